@@ -1,19 +1,201 @@
 // ============================================================
 //  ServiceMarketplace.ts
-//  OPNet P2P Service Marketplace — v5.1 (Production)
+//  OPNet P2P Service Marketplace — v6 (Production)
 //
-//  UPGRADES vs v5:
-//   [U5.1-1] FAUCET — permissionless, cooldown-gated token issuance.
-//            claimFaucet() mints FAUCET_AMOUNT to Blockchain.sender
-//            if and only if:
-//              (a) sender is non-zero
-//              (b) cooldown of FAUCET_COOLDOWN blocks has elapsed
-//                  since the sender's last successful claim
-//              (c) totalSupply + FAUCET_AMOUNT <= TOKEN_MAX_SUPPLY
-//            No owner, no admin, no privileged mint.  Max supply cap
-//            is structurally enforced.  Reentrancy guard applied.
-//   [U5.1-2] PTR_LAST_CLAIM — per-address storage pointer recording
-//            the block number of each address's last faucet claim.
+//  UPGRADES vs v5.1:
+//   [U6-1] ARBITRATION — optional arbiter chosen at createOrder.
+//            resolveDispute() lets the arbiter split PTR_LOCKED of a
+//            DISPUTED order between seller and buyer, minus an
+//            optional arbiter fee (bps, capped at MAX_ARBITER_FEE_BPS).
+//            New terminal state RESOLVED.  The buyer force-refund
+//            after DISPUTE_TIMEOUT_BLOCKS remains as the fallback
+//            for an unresponsive (or absent) arbiter.
+//   [U6-2] MILESTONES — createMilestoneOrder() prices an order as up
+//            to MAX_MILESTONES tranches, each with its own deadline.
+//            The buyer funds the sum once; releaseMilestone() pays
+//            tranches to the seller in order.  Cancellation, dispute
+//            and resolution only ever touch PTR_LOCKED, i.e. the
+//            tranches not yet released.  Shared create logic moved
+//            into _initOrder() / OrderOptions.
+//   [U6-3] PROTOCOL FEE — PROTOCOL_FEE_BPS is cut from every payout
+//            to a seller (_payoutSeller) and moved from totalLocked
+//            into the PTR_FEES_ACCRUED register.  Refunds to buyers
+//            are fee-free.  withdrawFees() and sweepExcess() pay
+//            only to the treasury fixed in onDeployment — never to
+//            the caller — which removes the first-caller race.
+//            Invariant strengthened to
+//              contractBalance >= totalLocked + feesAccrued
+//   [U6-4] MUTUAL SETTLEMENT — either party of a FUNDED or DISPUTED
+//            order proposes a seller/buyer split of PTR_LOCKED via
+//            proposeSettlement(); the counterparty executes it with
+//            acceptSettlement().  New terminal state SETTLED.  At most
+//            one open proposal per order; a new one replaces it, so
+//            the accepter names the split it agrees to and a
+//            replaced proposal cannot be accepted by mistake.
+//   [U6-5] PAYMENT TOKENS — OrderOptions.paymentToken selects the
+//            OP-20 an order is priced and escrowed in.  Zero keeps
+//            native mESC (balanceOfMap); any other address is an
+//            external OP-20 moved with transferFrom()/transfer().
+//            PTR_TOTAL_LOCKED and PTR_FEES_ACCRUED are keyed per
+//            token; the invariant is checked per token and reported
+//            by getTokenEscrowStats().  withdrawFees / sweepExcess
+//            take the token to act on.
+//   [U6-6] TERMS COMMITMENT — OrderOptions.termsHash commits the
+//            order to a 32-byte digest of the off-chain agreement
+//            (e.g. sha256 of a JSON spec, an IPFS CID digest).
+//            acceptOrder() requires the buyer to echo the same hash,
+//            so the terms a buyer accepts are provably the listed ones.
+//   [U6-7] ORDER INDEXES — append-only per-address lists of order
+//            ids: orders created as seller (_initOrder) and orders
+//            accepted as buyer (_acceptOrder).  Paged through
+//            getOrdersBySeller / getOrdersByBuyer, at most
+//            MAX_PAGE_SIZE ids per call.
+//   [U6-8] BATCHING — multicall(bytes[], bool) routes up to
+//            MAX_BATCH_SIZE payloads through _dispatch() in one
+//            guarded frame and returns their results.  The flag
+//            chooses atomic, or skipping and reporting items that
+//            fail their side-effect-free check (createOrder,
+//            cancelOrder).  cancelOrders(uint64[], bool) is a typed
+//            keeper batch with the same choice.  Rules factored into
+//            _createRejection / _orderOptionsRejection /
+//            _cancelRejection, effects into _executeCancel.
+//   [U6-9] DISPUTE TIMELINE — _openDispute records PTR_DISPUTED_AT;
+//            the buyer force-refund opens DISPUTE_TIMEOUT_BLOCKS after
+//            that block instead of after the deadline.  Until then
+//            either party may submitEvidence(orderId, hash); hashes
+//            are emitted as events and counted per order.
+//   [U6-10] REPUTATION — per-address counters kept by the state
+//            machine: completed as seller / as buyer, cancelled
+//            after funding by the buyer (seller; a seller's own
+//            refund is not counted), disputes opened, disputes lost
+//            on force-refund (seller), and lifetime mESC volume
+//            paid out to a seller (credited to both parties).
+//            Read with getReputation(address).
+//   [U6-11] SELLER BONDS — OrderOptions.bond is collateral the
+//            seller locks (in the order's payment token, through
+//            _escrowLock) when the order is created.  It sits in
+//            totalLocked next to the buyer's payment, returns to the
+//            seller when the order ends in any way except a buyer
+//            force-refund of a DISPUTED order, where it goes to the
+//            buyer as compensation.
+//   [U6-12] DESIGNATED BUYERS — OrderOptions.allowedBuyers lists up
+//            to MAX_ALLOWED_BUYERS addresses that may accept the
+//            order; an empty list keeps it open to anyone.  Enforced
+//            in _acceptOrder and reported at the tail of getOrder.
+//   [U6-13] BUYER REQUESTS — the reverse flow.  A buyer posts
+//            createRequest (budget, delivery-by block, terms, token,
+//            arbiter); sellers answer with submitBid(requestId,
+//            price, deadline); selectBid turns the chosen bid into a
+//            normal order through _initOrder, already ACCEPTED by
+//            the buyer (_registerBuyer) and optionally FUNDED in the
+//            same call (_lockPayment).  From there on it is an
+//            ordinary order.  Requests live in their own id space.
+//   [U6-14] DELIVERY + AUTO-RELEASE — the seller of a FUNDED order
+//            calls markDelivered(), recording PTR_DELIVERED_AT and
+//            opening a REVIEW_WINDOW_BLOCKS window.  The buyer may
+//            confirm or dispute inside it but can no longer cancel
+//            after the deadline; once it lapses anyone may call
+//            claimAutoRelease() to complete the order for the seller.
+//   [U6-15] DEADLINE EXTENSIONS — proposeDeadlineExtension() moves
+//            a CREATED listing's deadline at once when its seller
+//            calls it; on ACCEPTED or FUNDED orders it records a
+//            proposal that the counterparty applies with
+//            approveDeadlineExtension().  Unreleased milestone
+//            deadlines shift by the same number of blocks.
+//            Deadlines only ever move later.
+//   [U6-16] EDITABLE LISTINGS — updateOrder() lets the seller
+//            re-price and re-time a single-price order before it is
+//            funded.  An ACCEPTED order drops back to CREATED (buyer
+//            and acceptedAt cleared).  Each edit bumps PTR_REVISION;
+//            fundOrder(orderId, revision) must echo the revision the
+//            buyer saw.
+//   [U6-17] MULTI-UNIT LISTINGS — createListing() offers `units`
+//            copies of a service at a unit price.  Listing ids are
+//            drawn from the order counter, and acceptOrder /
+//            acceptOrderFor / fundOrder on a listing id each spend
+//            one unit and spawn a purchase slot: an ordinary order
+//            (own buyer, escrow and state) created by _initOrder,
+//            ACCEPTED or, through fundOrder, FUNDED.  An undelivered
+//            purchase that is cancelled returns its unit to an open
+//            listing.  Purchases are indexed per listing.
+//   [U6-18] SUBSCRIPTIONS — a buyer pre-funds K periods of N blocks
+//            for a seller in one createSubscription() call
+//            (_escrowLock).  After each period ends the seller claims
+//            its price less the protocol fee; the buyer may dispute
+//            the running period, which holds it: the subscription's
+//            optional arbiter splits it (resolveSubscriptionPeriod),
+//            or the buyer reclaims it once the dispute timeout in
+//            force at creation has run (refundSubscriptionPeriod).
+//            Either party may stop the subscription: periods not
+//            yet started are refunded, the running one still
+//            settles.  Settled / disputed periods are u256 bitmaps,
+//            so K <= MAX_SUB_PERIODS.  Own id space.
+//   [U6-19] TRANSFERABLE POSITIONS — the seller and buyer roles of
+//            an order are positions their holder can assign with
+//            transferSellerRole / transferBuyerRole: the seller while
+//            CREATED, ACCEPTED or FUNDED, the buyer while FUNDED.
+//            Everything the role is owed later (payout, refund,
+//            bond) follows it.  Open settlement and extension
+//            proposals are dropped.  getPositionOwner(orderId, role)
+//            is the owner lookup for other contracts.
+//   [U6-20] OPERATORS — setOperator(operator, mask) lets an address
+//            delegate individual actions (accept, fund, confirm,
+//            cancel, dispute — PERM_* bits) to a relayer or contract
+//            wallet.  _requireCaller(expected, perm) and the caller
+//            checks in _cancelRejection / _openDispute accept an
+//            operator holding the bit; acceptOrderFor names the
+//            buyer explicitly.  Lifecycle events carry the actor.
+//   [U6-21] GOVERNANCE — MIN_DEADLINE_BLOCKS, ACCEPT_TIMEOUT_BLOCKS,
+//            DISPUTE_TIMEOUT_BLOCKS, FAUCET_AMOUNT and FAUCET_COOLDOWN
+//            are now defaults of storage-backed parameters (PARAM_*).
+//            mESC holders propose a new value (createProposal), vote
+//            (castVote) and anyone executes once the vote passed and
+//            GOV_TIMELOCK_BLOCKS elapsed.  OP-20 has no balance
+//            snapshots, so votes are locked instead: the weight is
+//            moved into the contract for the voting period and
+//            returned by withdrawVote, so one token cannot vote
+//            twice.  Vote weight is its own register
+//            (PTR_VOTES_LOCKED), reserved ahead of and outside the
+//            escrow accounting.  The faucet parameters are bounded
+//            (MAX_FAUCET_AMOUNT, MIN_FAUCET_COOLDOWN) so a captured
+//            vote cannot turn the faucet into a mint.  Each
+//            order snapshots the block-count parameters at creation
+//            (PTR_ORDER_PARAMS); later changes never touch it.
+//   [U6-22] DEPLOYMENT CONFIG — onDeployment reads max supply, the
+//            three timeouts and the faucet switch / amount / cooldown
+//            after the treasury, validates them and seeds the
+//            PARAM_* registers, so one source serves testnet and
+//            mainnet.  A disabled faucet reverts claimFaucet; an
+//            initial mint to the treasury then seeds the supply.
+//            getConfig() reports the values in force.
+//   [U6-23] SCHEMA VERSIONS — every new order is stamped with
+//            SCHEMA_CURRENT (PTR_ORDER_SCHEMA); unstamped records
+//            are SCHEMA_LEGACY.  _readAcceptedAt, _readDisputedAt
+//            and _orderParam apply the backfill rules to legacy
+//            records on the fly, so views never write.  _transition
+//            persists them through _upgradeOrder, stamps the record
+//            and raises PTR_SCHEMA_VERSION to the newest layout
+//            written.  getSchemaInfo(orderId) reports the running
+//            build's SCHEMA_CURRENT and the record's stamp.
+//   [U6-24] CIRCUIT BREAKER — a reverting invariant check cannot
+//            record the breach, so _tripIfBroken latches a per-token
+//            frozen flag instead (PTR_FROZEN_AT).  It runs from the
+//            permissionless checkInvariant(token) and from every
+//            entry point that takes new escrow; the tripping call
+//            returns 0 / false rather than reverting so the latch
+//            persists; a release that meets a shortfall trips it
+//            the same way.  A frozen token refuses new orders and
+//            funding.  Every release still runs but pays the
+//            recipient its pro-rata share of what is left, and
+//            emergencyWithdraw(orderId) lets either party of an
+//            undisputed order take that share at once.  Disputed
+//            orders stay with the arbiter / force-refund timeout.
+//            Vote weight is not escrow and is not scaled.  No
+//            admin, no unfreeze.
+//
+//  PRESERVED FROM v5.1:
+//   [U5.1-1] Permissionless cooldown-gated faucet (claimFaucet)
+//   [U5.1-2] PTR_LAST_CLAIM
 //
 //  PRESERVED FROM v5:
 //   [U5-1] ACCEPT_TIMEOUT_BLOCKS + PTR_ACCEPTED_AT
@@ -38,12 +220,18 @@
 //          or any) │                │                 ▼
 //                  ▼                ▼              DISPUTED
 //              CANCELLED        CANCELLED            │
-//              (terminal)       (terminal)    cancel │ (buyer only,
-//                                             after  │  deadline +
-//                                             timeout)│ DISPUTE_TIMEOUT)
-//                                                     ▼
-//                                                 CANCELLED
-//                                                 (terminal)
+//              (terminal)       (terminal)           │
+//                                       resolve ┌────┴─────┐ cancel
+//                                      (arbiter)│          │ (buyer only, after
+//                                               ▼          ▼  disputedAt +
+//                                           RESOLVED   CANCELLED  DISPUTE_TIMEOUT)
+//                                          (terminal)  (terminal)
+//
+//   [U6-4] FUNDED or DISPUTED ── acceptSettlement ──► SETTLED (terminal)
+//   [U6-16] ACCEPTED ── updateOrder ──► CREATED
+//   [U6-17] listing ── acceptOrder (fundOrder) ──► new ACCEPTED (FUNDED) order, one per unit
+//   [U6-13] request ── selectBid ──► ACCEPTED (or FUNDED) order
+//   [U6-14] FUNDED ── markDelivered … review window ── claimAutoRelease ──► COMPLETED
 //
 //  STORAGE LAYOUT:
 //   PTR 0x0001 → global order counter         subPtr = u256.Zero
@@ -53,14 +241,117 @@
 //   PTR 0x0040 → locked u256   per orderId
 //   PTR 0x0050 → state  u8     per orderId   lo byte of u256
 //   PTR 0x0060 → deadline u64  per orderId   lo64 of u256
-//   PTR 0x0070 → totalLocked u256            subPtr = u256.Zero
+//   PTR 0x0070 → totalLocked u256   per token  subPtr = token.toU256()  [U6-5]
 //   PTR 0x0080 → acceptedAt u64 per orderId  lo64 of u256  [U5-1]
 //   PTR 0x0090 → lastClaimBlock u64 per addr lo64 of u256  [U5.1-1]
+//   PTR 0x00A0 → arbiter Address per orderId                [U6-1]
+//   PTR 0x00B0 → arbiterFeeBps u16 per orderId lo64 of u256 [U6-1]
+//   PTR 0x00C0 → milestoneCount u8 per orderId              [U6-2]
+//   PTR 0x00D0 → milestonesReleased u8 per orderId          [U6-2]
+//   PTR 0x00E0 → milestone amount u256  per (orderId, idx)  [U6-2]
+//   PTR 0x00F0 → milestone deadline u64 per (orderId, idx)  [U6-2]
+//   PTR 0x0100 → feesAccrued u256   per token  subPtr = token.toU256()  [U6-3]
+//   PTR 0x0110 → treasury Address            subPtr = u256.Zero [U6-3]
+//   PTR 0x0120 → settlement proposer Address per orderId    [U6-4]
+//   PTR 0x0130 → settlement sellerAmount u256 per orderId   [U6-4]
+//   PTR 0x0140 → paymentToken Address per orderId           [U6-5]
+//   PTR 0x0150 → termsHash bytes32 per orderId (as u256)    [U6-6]
+//   PTR 0x0160 → seller index length u64 per address        [U6-7]
+//   PTR 0x0170 → seller index entry orderId per (addr, i)   [U6-7]
+//   PTR 0x0180 → buyer  index length u64 per address        [U6-7]
+//   PTR 0x0190 → buyer  index entry orderId per (addr, i)   [U6-7]
+//   PTR 0x01A0 → disputedAt u64 per orderId  lo64 of u256   [U6-9]
+//   PTR 0x01B0 → evidence count u32 per orderId             [U6-9]
+//   PTR 0x01C0 → completed as seller u64 per address        [U6-10]
+//   PTR 0x01D0 → completed as buyer  u64 per address        [U6-10]
+//   PTR 0x01E0 → cancelled after funding u64 per address    [U6-10]
+//   PTR 0x01F0 → disputes opened u64 per address            [U6-10]
+//   PTR 0x0200 → disputes lost u64 per address              [U6-10]
+//   PTR 0x0210 → mESC volume u256 per address               [U6-10]
+//   PTR 0x0220 → seller bond u256 per orderId               [U6-11]
+//   PTR 0x0230 → allowed buyer count u8 per orderId         [U6-12]
+//   PTR 0x0240 → allowed buyer Address per (orderId, idx)   [U6-12]
+//   PTR 0x0250 → global request counter      subPtr = u256.Zero [U6-13]
+//   PTR 0x0260 → request buyer Address per requestId        [U6-13]
+//   PTR 0x0270 → request budget u256 per requestId          [U6-13]
+//   PTR 0x0280 → request deadline u64 per requestId         [U6-13]
+//   PTR 0x0290 → request paymentToken Address per requestId [U6-13]
+//   PTR 0x02A0 → request termsHash per requestId            [U6-13]
+//   PTR 0x02B0 → request arbiter Address per requestId      [U6-13]
+//   PTR 0x02C0 → request arbiterFeeBps u16 per requestId    [U6-13]
+//   PTR 0x02D0 → request state u8 per requestId             [U6-13]
+//   PTR 0x02E0 → request resulting orderId per requestId    [U6-13]
+//   PTR 0x02F0 → bid count u32 per requestId                [U6-13]
+//   PTR 0x0300 → bid seller Address per (requestId, bidId)  [U6-13]
+//   PTR 0x0310 → bid price u256 per (requestId, bidId)      [U6-13]
+//   PTR 0x0320 → bid deadline u64 per (requestId, bidId)    [U6-13]
+//   PTR 0x0330 → deliveredAt u64 per orderId lo64 of u256   [U6-14]
+//   PTR 0x0340 → extension proposer Address per orderId     [U6-15]
+//   PTR 0x0350 → extension newDeadline u64 per orderId      [U6-15]
+//   PTR 0x0360 → listing revision u32 per orderId           [U6-16]
+//   PTR 0x0370 → reserved (listing ids come from PTR_ORDER_COUNT) [U6-17]
+//   PTR 0x0380 → listing seller Address per listingId       [U6-17]
+//   PTR 0x0390 → listing unit price u256 per listingId      [U6-17]
+//   PTR 0x03A0 → listing delivery blocks u64 per listingId  [U6-17]
+//   PTR 0x03B0 → listing total units u32 per listingId      [U6-17]
+//   PTR 0x03C0 → listing units remaining u32 per listingId  [U6-17]
+//   PTR 0x03D0 → listing open flag per listingId            [U6-17]
+//   PTR 0x03E0 → listing paymentToken Address per listingId [U6-17]
+//   PTR 0x03F0 → listing termsHash per listingId            [U6-17]
+//   PTR 0x0400 → listing arbiter Address per listingId      [U6-17]
+//   PTR 0x0410 → listing arbiterFeeBps u16 per listingId    [U6-17]
+//   PTR 0x0420 → purchase index length u64 per listingId    [U6-17]
+//   PTR 0x0430 → purchase index entry orderId per (listingId, i) [U6-17]
+//   PTR 0x0440 → source listingId per orderId  lo1 listingId, lo2 unit held [U6-17]
+//   PTR 0x0450 → global subscription counter subPtr = u256.Zero [U6-18]
+//   PTR 0x0460 → subscription buyer Address per subId       [U6-18]
+//   PTR 0x0470 → subscription seller Address per subId      [U6-18]
+//   PTR 0x0480 → price per period u256 per subId            [U6-18]
+//   PTR 0x0490 → period length u64 (blocks) per subId       [U6-18]
+//   PTR 0x04A0 → start block u64 per subId                  [U6-18]
+//   PTR 0x04B0 → periods funded u16 per subId               [U6-18]
+//   PTR 0x04C0 → periods active (end) u16 per subId         [U6-18]
+//   PTR 0x04D0 → paymentToken Address per subId             [U6-18]
+//   PTR 0x04E0 → termsHash per subId                        [U6-18]
+//   PTR 0x04F0 → settled-period bitmap u256 per subId       [U6-18]
+//   PTR 0x0500 → disputed-period bitmap u256 per subId      [U6-18]
+//   PTR 0x0510 → locked u256 per subId                      [U6-18]
+//   PTR 0x0520 → operator permission mask u32 per (owner, operator)
+//                subPtr = sha256(owner ‖ operator)           [U6-20]
+//   PTR 0x0530 → governed parameter u256 per paramId (0 = default) [U6-21]
+//   PTR 0x0540 → parameter snapshot per orderId, packed
+//                lo1 minDeadline, lo2 acceptTimeout,
+//                hi1 disputeTimeout                          [U6-21]
+//   PTR 0x0550 → global proposal counter                    [U6-21]
+//   PTR 0x0560 → paramId u8 per proposalId                  [U6-21]
+//   PTR 0x0570 → proposed value u256 per proposalId         [U6-21]
+//   PTR 0x0580 → proposer Address per proposalId            [U6-21]
+//   PTR 0x0590 → voting end block u64 per proposalId        [U6-21]
+//   PTR 0x05A0 → votes for u256 per proposalId              [U6-21]
+//   PTR 0x05B0 → votes against u256 per proposalId          [U6-21]
+//   PTR 0x05C0 → executed flag per proposalId               [U6-21]
+//   PTR 0x05D0 → locked vote weight per (voter, proposalId) [U6-21]
+//   PTR 0x05E0 → faucet enabled flag (global)               [U6-22]
+//   PTR 0x05F0 → schema version u32 (global)                [U6-23]
+//   PTR 0x0600 → schema version u32 per orderId (0 = legacy) [U6-23]
+//   PTR 0x0610 → frozen-at block u64 per token (0 = live)    [U6-24]
+//   PTR 0x0620 → subscription arbiter Address per subId     [U6-18]
+//   PTR 0x0630 → subscription arbiterFeeBps u16 per subId   [U6-18]
+//   PTR 0x0640 → dispute timeout u64 per subId (at creation) [U6-18]
+//   PTR 0x0650 → disputedAt block u64 per (subId, period)   [U6-18]
+//   PTR 0x0660 → mESC locked as vote weight (global)        [U6-21]
+//
+//  Native mESC is token = zero address, so its per-token
+//  registers sit at subPtr = u256.Zero exactly as before v6.
+//
+//  (orderId, idx) and (address, idx) keys use _pairSub(): the
+//  base value in the low 192 bits, the index in the top 64.
 // ============================================================
 
 import {
     Address,
     Blockchain,
+    BytesReader,
     BytesWriter,
     Calldata,
     DeployableOP_20,
@@ -70,6 +361,7 @@ import {
     Revert,
     Selector,
     SafeMath,
+    sha256,
 } from '@btc-vision/btc-runtime/runtime';
 
 import { u256 } from 'as-bignum/assembly';
@@ -89,9 +381,101 @@ const PTR_PRICE:        u16 = 0x0030;
 const PTR_LOCKED:       u16 = 0x0040;
 const PTR_STATE:        u16 = 0x0050;
 const PTR_DEADLINE:     u16 = 0x0060;
-const PTR_TOTAL_LOCKED: u16 = 0x0070;
+const PTR_TOTAL_LOCKED: u16 = 0x0070; // [U6-5] keyed per payment token
 const PTR_ACCEPTED_AT:  u16 = 0x0080; // [U5-1] block at which order was accepted
 const PTR_LAST_CLAIM:   u16 = 0x0090; // [U5.1-1] last faucet claim block per address
+const PTR_ARBITER:      u16 = 0x00A0; // [U6-1] dispute arbiter per order (zero = none)
+const PTR_ARBITER_FEE:  u16 = 0x00B0; // [U6-1] arbiter fee in basis points per order
+const PTR_MS_COUNT:     u16 = 0x00C0; // [U6-2] milestone count per order (0 = single-price order)
+const PTR_MS_RELEASED:  u16 = 0x00D0; // [U6-2] milestones released so far per order
+const PTR_MS_AMOUNT:    u16 = 0x00E0; // [U6-2] tranche amount per (order, index)
+const PTR_MS_DEADLINE:  u16 = 0x00F0; // [U6-2] tranche deadline per (order, index)
+const PTR_FEES_ACCRUED: u16 = 0x0100; // [U6-3] protocol fees held for the treasury
+const PTR_TREASURY:     u16 = 0x0110; // [U6-3] fee recipient, fixed at deployment
+const PTR_SETTLE_BY:    u16 = 0x0120; // [U6-4] proposer of the open settlement (zero = none)
+const PTR_SETTLE_AMT:   u16 = 0x0130; // [U6-4] seller share of the open settlement
+const PTR_TOKEN:        u16 = 0x0140; // [U6-5] payment token per order (zero = native mESC)
+const PTR_TERMS:        u16 = 0x0150; // [U6-6] terms commitment hash per order
+const PTR_SELLER_IDX_N: u16 = 0x0160; // [U6-7] number of orders listed per seller
+const PTR_SELLER_IDX:   u16 = 0x0170; // [U6-7] seller's i-th orderId
+const PTR_BUYER_IDX_N:  u16 = 0x0180; // [U6-7] number of orders accepted per buyer
+const PTR_BUYER_IDX:    u16 = 0x0190; // [U6-7] buyer's i-th orderId
+const PTR_DISPUTED_AT:  u16 = 0x01A0; // [U6-9] block at which the dispute was opened
+const PTR_EVIDENCE_N:   u16 = 0x01B0; // [U6-9] evidence hashes submitted per order
+const PTR_REP_SOLD:     u16 = 0x01C0; // [U6-10] orders completed as seller
+const PTR_REP_BOUGHT:   u16 = 0x01D0; // [U6-10] orders completed as buyer
+const PTR_REP_CANCELS:  u16 = 0x01E0; // [U6-10] funded orders the buyer cancelled against the seller
+const PTR_REP_DISPUTES: u16 = 0x01F0; // [U6-10] disputes opened by the address
+const PTR_REP_LOST:     u16 = 0x0200; // [U6-10] disputes lost to a buyer force-refund
+const PTR_REP_VOLUME:   u16 = 0x0210; // [U6-10] lifetime mESC paid out on the address's orders
+const PTR_BOND:         u16 = 0x0220; // [U6-11] seller bond posted per order
+const PTR_ALLOW_N:      u16 = 0x0230; // [U6-12] designated buyer count per order (0 = open)
+const PTR_ALLOW:        u16 = 0x0240; // [U6-12] designated buyer per (order, index)
+const PTR_REQ_COUNT:    u16 = 0x0250; // [U6-13] global request counter
+const PTR_REQ_BUYER:    u16 = 0x0260; // [U6-13] buyer who posted the request
+const PTR_REQ_BUDGET:   u16 = 0x0270; // [U6-13] highest acceptable bid price
+const PTR_REQ_DEADLINE: u16 = 0x0280; // [U6-13] latest acceptable delivery block
+const PTR_REQ_TOKEN:    u16 = 0x0290; // [U6-13] payment token of the resulting order
+const PTR_REQ_TERMS:    u16 = 0x02A0; // [U6-13] terms commitment of the resulting order
+const PTR_REQ_ARBITER:  u16 = 0x02B0; // [U6-13] arbiter of the resulting order
+const PTR_REQ_ARB_FEE:  u16 = 0x02C0; // [U6-13] arbiter fee of the resulting order
+const PTR_REQ_STATE:    u16 = 0x02D0; // [U6-13] REQUEST_* state
+const PTR_REQ_ORDER:    u16 = 0x02E0; // [U6-13] orderId created by selectBid
+const PTR_BID_N:        u16 = 0x02F0; // [U6-13] bids received per request
+const PTR_BID_SELLER:   u16 = 0x0300; // [U6-13] bidder per (request, bid)
+const PTR_BID_PRICE:    u16 = 0x0310; // [U6-13] bid price per (request, bid)
+const PTR_BID_DEADLINE: u16 = 0x0320; // [U6-13] bid delivery block per (request, bid)
+const PTR_DELIVERED_AT: u16 = 0x0330; // [U6-14] block the seller marked delivery (0 = not yet)
+const PTR_EXT_BY:       u16 = 0x0340; // [U6-15] proposer of the open extension (zero = none)
+const PTR_EXT_DEADLINE: u16 = 0x0350; // [U6-15] proposed absolute deadline
+const PTR_REVISION:     u16 = 0x0360; // [U6-16] edits made to the listing (0 = as created)
+const PTR_LST_SELLER:   u16 = 0x0380; // [U6-17] seller of the listing
+const PTR_LST_PRICE:    u16 = 0x0390; // [U6-17] price per unit
+const PTR_LST_DBLOCKS:  u16 = 0x03A0; // [U6-17] delivery window per purchase, relative
+const PTR_LST_UNITS:    u16 = 0x03B0; // [U6-17] units offered in total
+const PTR_LST_LEFT:     u16 = 0x03C0; // [U6-17] units still purchasable
+const PTR_LST_OPEN:     u16 = 0x03D0; // [U6-17] 1 while the listing sells
+const PTR_LST_TOKEN:    u16 = 0x03E0; // [U6-17] payment token of its purchases
+const PTR_LST_TERMS:    u16 = 0x03F0; // [U6-17] terms commitment of its purchases
+const PTR_LST_ARBITER:  u16 = 0x0400; // [U6-17] arbiter of its purchases
+const PTR_LST_ARB_FEE:  u16 = 0x0410; // [U6-17] arbiter fee of its purchases
+const PTR_LST_PURCH_N:  u16 = 0x0420; // [U6-17] purchases made per listing
+const PTR_LST_PURCH:    u16 = 0x0430; // [U6-17] listing's i-th purchase orderId
+const PTR_ORDER_LST:    u16 = 0x0440; // [U6-17] listing an order was bought from (0 = none), unit held
+const PTR_SUB_COUNT:    u16 = 0x0450; // [U6-18] global subscription counter
+const PTR_SUB_BUYER:    u16 = 0x0460; // [U6-18] paying buyer
+const PTR_SUB_SELLER:   u16 = 0x0470; // [U6-18] serving seller
+const PTR_SUB_PRICE:    u16 = 0x0480; // [U6-18] price per period
+const PTR_SUB_PERIOD:   u16 = 0x0490; // [U6-18] period length in blocks
+const PTR_SUB_START:    u16 = 0x04A0; // [U6-18] block period 0 starts at
+const PTR_SUB_FUNDED:   u16 = 0x04B0; // [U6-18] periods funded at creation
+const PTR_SUB_END:      u16 = 0x04C0; // [U6-18] periods still active (≤ funded)
+const PTR_SUB_TOKEN:    u16 = 0x04D0; // [U6-18] payment token
+const PTR_SUB_TERMS:    u16 = 0x04E0; // [U6-18] terms commitment
+const PTR_SUB_CLAIMED:  u16 = 0x04F0; // [U6-18] bit i set = period i paid out (claimed or resolved)
+const PTR_SUB_DISPUTED: u16 = 0x0500; // [U6-18] bit i set = period i disputed by the buyer
+const PTR_SUB_LOCKED:   u16 = 0x0510; // [U6-18] escrow still held for the subscription
+const PTR_OPERATOR:     u16 = 0x0520; // [U6-20] PERM_* mask an owner granted an operator
+const PTR_PARAM:        u16 = 0x0530; // [U6-21] governed parameter value (0 = default)
+const PTR_ORDER_PARAMS: u16 = 0x0540; // [U6-21] block parameters in force at creation
+const PTR_PROP_COUNT:   u16 = 0x0550; // [U6-21] global proposal counter
+const PTR_PROP_PARAM:   u16 = 0x0560; // [U6-21] parameter a proposal changes
+const PTR_PROP_VALUE:   u16 = 0x0570; // [U6-21] proposed value
+const PTR_PROP_BY:      u16 = 0x0580; // [U6-21] proposer
+const PTR_PROP_END:     u16 = 0x0590; // [U6-21] block voting closes at
+const PTR_PROP_FOR:     u16 = 0x05A0; // [U6-21] weight voted for
+const PTR_PROP_AGAINST: u16 = 0x05B0; // [U6-21] weight voted against
+const PTR_PROP_DONE:    u16 = 0x05C0; // [U6-21] 1 once executed
+const PTR_VOTE_LOCK:    u16 = 0x05D0; // [U6-21] weight a voter locked on a proposal
+const PTR_FAUCET_ON:    u16 = 0x05E0; // [U6-22] 1 = claimFaucet open, set at deployment
+const PTR_SCHEMA_VERSION: u16 = 0x05F0; // [U6-23] newest layout written so far
+const PTR_ORDER_SCHEMA: u16 = 0x0600; // [U6-23] layout an order record is in
+const PTR_FROZEN_AT:    u16 = 0x0610; // [U6-24] block the breaker tripped, per token
+const PTR_SUB_ARBITER:  u16 = 0x0620; // [U6-18] dispute arbiter per subscription (zero = none)
+const PTR_SUB_ARB_FEE:  u16 = 0x0630; // [U6-18] arbiter fee in basis points per subscription
+const PTR_SUB_TIMEOUT:  u16 = 0x0640; // [U6-18] dispute timeout in force at creation
+const PTR_SUB_DISP_AT:  u16 = 0x0650; // [U6-18] block a period was disputed at
+const PTR_VOTES_LOCKED: u16 = 0x0660; // [U6-21] mESC held as vote weight, outside totalLocked
 
 // ─────────────────────────────────────────────────────────────
 //  ORDER STATE CONSTANTS  (u8, stored in low byte of u256)
@@ -106,22 +490,113 @@ const STATE_FUNDED:    u8 = 3; // funds locked in escrow
 const STATE_COMPLETED: u8 = 4; // delivery confirmed (terminal)
 const STATE_CANCELLED: u8 = 5; // cancelled — funds returned (terminal)
 const STATE_DISPUTED:  u8 = 6; // dispute raised — funds frozen
+const STATE_RESOLVED:  u8 = 7; // arbiter split the escrow (terminal)  [U6-1]
+const STATE_SETTLED:   u8 = 8; // parties agreed a split (terminal)    [U6-4]
+
+// [U6-23] Order record layouts.  Bump SCHEMA_CURRENT whenever
+// a change adds per-order fields, and teach the legacy-aware
+// readers (and so _upgradeOrder) to backfill them.
+const SCHEMA_LEGACY:  u32 = 0; // unstamped: written before [U6-23]
+const SCHEMA_CURRENT: u32 = 1; // v6.23
+
+// [U6-13] Buyer request lifecycle.
+const REQUEST_NONE:      u8 = 0; // uninitialised sentinel
+const REQUEST_OPEN:      u8 = 1; // collecting bids
+const REQUEST_FILLED:    u8 = 2; // a bid was selected (terminal)
+const REQUEST_CANCELLED: u8 = 3; // withdrawn by the buyer (terminal)
+
+// [U6-21] Proposal status, derived by _proposalStatus (not stored).
+const PROPOSAL_NONE:     u8 = 0; // no such proposal
+const PROPOSAL_VOTING:   u8 = 1; // voting open
+const PROPOSAL_QUEUED:   u8 = 2; // passed, timelock running
+const PROPOSAL_READY:    u8 = 3; // passed, executable
+const PROPOSAL_DEFEATED: u8 = 4; // failed quorum or majority (terminal)
+const PROPOSAL_EXPIRED:  u8 = 5; // passed but not executed in time (terminal)
+const PROPOSAL_EXECUTED: u8 = 6; // applied (terminal)
 
 // ─────────────────────────────────────────────────────────────
 //  PROTOCOL CONSTANTS
 // ─────────────────────────────────────────────────────────────
 
-// Minimum listing deadline (~1 hour at 10 min/block).
+// [U6-21] The five constants below marked "default" are the
+// starting values of governed parameters; read them through
+// _paramU64 / _readParam (or _orderParam for an existing order).
+
+// Minimum listing deadline (~1 hour at 10 min/block).  Default.
 const MIN_DEADLINE_BLOCKS: u64 = 6;
 
 // [U5-1] Window after acceptOrder within which buyer MUST fund.
-// ~50 days at 10 min/block.  After this, anyone may cancel.
+// ~50 days at 10 min/block.  After this, anyone may cancel.  Default.
 const ACCEPT_TIMEOUT_BLOCKS: u64 = 7200;
 
 // After dispute, buyer may force-cancel once
-// (deadline + DISPUTE_TIMEOUT_BLOCKS) elapses (~1 day).
+// (disputedAt + DISPUTE_TIMEOUT_BLOCKS) elapses (~1 day).  [U6-9]
+// This is also the evidence window.  Default.
 const DISPUTE_TIMEOUT_BLOCKS: u64 = 144;
 
+// [U6-14] Buyer review period after markDelivered (~3 days).
+// Afterwards anyone may claimAutoRelease for the seller.
+const REVIEW_WINDOW_BLOCKS: u64 = 432;
+
+// [U6-1] Basis-point denominator and the ceiling on the arbiter's
+// cut of a disputed escrow (1 000 bps = 10 %).
+const BPS_DENOMINATOR:     u64 = 10_000;
+const MAX_ARBITER_FEE_BPS: u16 = 1_000;
+
+// [U6-2] Upper bound on tranches per milestone order.
+const MAX_MILESTONES: u8 = 16;
+
+// [U6-3] Protocol cut of every seller payout (50 bps = 0.5 %).
+const PROTOCOL_FEE_BPS: u16 = 50;
+
+// [U6-7] Maximum ids returned by one paged index view.
+const MAX_PAGE_SIZE: u32 = 100;
+
+// [U6-8] Maximum items in one multicall / typed batch.
+const MAX_BATCH_SIZE: u16 = 32;
+
+// [U6-12] Upper bound on designated buyers per order.
+const MAX_ALLOWED_BUYERS: u8 = 8;
+
+// [U6-18] Periods per subscription — one bit each in a u256.
+const MAX_SUB_PERIODS: u16 = 256;
+
+// [U6-19] Position roles for transfers and getPositionOwner.
+const ROLE_SELLER: u8 = 0;
+const ROLE_BUYER:  u8 = 1;
+
+// [U6-20] Operator permission bits.  PERM_NONE = owner only.
+const PERM_NONE:    u32 = 0;
+const PERM_ACCEPT:  u32 = 1 << 0; // acceptOrderFor
+const PERM_FUND:    u32 = 1 << 1; // fundOrder
+const PERM_CONFIRM: u32 = 1 << 2; // confirmCompletion, releaseMilestone
+const PERM_CANCEL:  u32 = 1 << 3; // cancelOrder, cancelOrders
+const PERM_DISPUTE: u32 = 1 << 4; // openDispute
+const PERM_ALL:     u32 = 0x1F;
+
+// [U6-21] Governed parameter ids.
+const PARAM_MIN_DEADLINE:    u8 = 0; // default MIN_DEADLINE_BLOCKS
+const PARAM_ACCEPT_TIMEOUT:  u8 = 1; // default ACCEPT_TIMEOUT_BLOCKS
+const PARAM_DISPUTE_TIMEOUT: u8 = 2; // default DISPUTE_TIMEOUT_BLOCKS
+const PARAM_FAUCET_AMOUNT:   u8 = 3; // default FAUCET_AMOUNT
+const PARAM_FAUCET_COOLDOWN: u8 = 4; // default FAUCET_COOLDOWN
+const PARAM_COUNT:           u8 = 5;
+
+// [U6-21] Upper bound on any block-count parameter (~1 year).
+const MAX_PARAM_BLOCKS: u64 = 52_560;
+
+// [U6-21] Faucet bounds: at most 10× the default FAUCET_AMOUNT per
+// claim, at least the default FAUCET_COOLDOWN between claims.
+const MAX_FAUCET_AMOUNT:   u256 = u256.fromU64(100_000_000_000); // 1 000 mESC
+const MIN_FAUCET_COOLDOWN: u64  = 144;
+
+// [U6-21] Governance timing (blocks) and thresholds (mESC base units).
+const GOV_VOTING_BLOCKS:    u64 = 1_008;  // ~1 week of voting
+const GOV_TIMELOCK_BLOCKS:  u64 = 288;    // ~2 days before execution
+const GOV_EXECUTION_BLOCKS: u64 = 1_008;  // then ~1 week to execute
+const GOV_PROPOSAL_MIN: u256 = u256.fromU64(100_000_000_000);     // 1 000 mESC held to propose
+const GOV_QUORUM:       u256 = u256.fromU64(10_000_000_000_000);  // 100 000 mESC voted
+
 // ─────────────────────────────────────────────────────────────
 //  [U5.1-1] FAUCET CONSTANTS
 //
@@ -133,6 +608,8 @@ const DISPUTE_TIMEOUT_BLOCKS: u64 = 144;
 //  Neither constant grants any privilege.  Anyone may call
 //  claimFaucet() on any block as long as their per-address
 //  cooldown has elapsed and the global max supply is not breached.
+//  [U6-21] Both are defaults; governance may change them within
+//  MAX_FAUCET_AMOUNT / MIN_FAUCET_COOLDOWN.
 // ─────────────────────────────────────────────────────────────
 const FAUCET_AMOUNT:   u256 = u256.fromU64(10_000_000_000); // 100 mESC
 const FAUCET_COOLDOWN: u64  = 144;                          // ~1 day
@@ -141,10 +618,13 @@ const FAUCET_COOLDOWN: u64  = 144;                          // ~1 day
 //  BYTE-LENGTH CONSTANTS
 // ─────────────────────────────────────────────────────────────
 const SZ_U64:     i32 = 8;
+const SZ_U32:     i32 = 4;
+const SZ_U16:     i32 = 2;
 const SZ_U256:    i32 = 32;
 const SZ_ADDRESS: i32 = 20;
 const SZ_U8:      i32 = 1;
 const SZ_BOOL:    i32 = 1;
+const SZ_SELECTOR: i32 = 4;
 
 // ─────────────────────────────────────────────────────────────
 //  ESCROW TOKEN METADATA
@@ -152,6 +632,7 @@ const SZ_BOOL:    i32 = 1;
 //  This contract IS an OP-20 token whose internal balanceOfMap
 //  serves as the escrow vault (native OPNet balance model).
 //  Max supply = 21,000,000 BTC × 10^8 satoshis.
+//  [U6-22] That is the ceiling; the deployer picks the actual cap.
 // ─────────────────────────────────────────────────────────────
 const TOKEN_NAME:       string = 'Marketplace Escrow';
 const TOKEN_SYMBOL:     string = 'mESC';
@@ -164,80 +645,204 @@ const TOKEN_MAX_SUPPLY: string = '2100000000000000';
 
 @final
 class OrderCreatedEvent extends NetEvent {
-    constructor(orderId: u64, seller: Address, price: u256, deadline: u64) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U64);
+    constructor(
+        orderId: u64,
+        seller: Address,
+        price: u256,
+        deadline: u64,
+        arbiter: Address,
+        arbiterFeeBps: u16,
+        paymentToken: Address,
+        termsHash: u256,
+        bond: u256,
+    ) {
+        const w = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U64 +
+            SZ_ADDRESS + SZ_U16 + SZ_ADDRESS + SZ_U256 + SZ_U256
+        );
         w.writeU64(orderId);
         w.writeAddress(seller);
         w.writeU256(price);
         w.writeU64(deadline);
+        w.writeAddress(arbiter);       // [U6-1]
+        w.writeU16(arbiterFeeBps);     // [U6-1]
+        w.writeAddress(paymentToken);  // [U6-5]
+        w.writeU256(termsHash);        // [U6-6] bytes32
+        w.writeU256(bond);             // [U6-11]
         super('OrderCreated', w);
     }
 }
 
+// [U6-16]
+@final
+class OrderUpdatedEvent extends NetEvent {
+    constructor(orderId: u64, revision: u32, price: u256, deadline: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_U32 + SZ_U256 + SZ_U64);
+        w.writeU64(orderId);
+        w.writeU32(revision);
+        w.writeU256(price);
+        w.writeU64(deadline);
+        super('OrderUpdated', w);
+    }
+}
+
 @final
 class OrderAcceptedEvent extends NetEvent {
-    constructor(orderId: u64, buyer: Address, acceptedAt: u64) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U64);
+    constructor(orderId: u64, buyer: Address, acceptedAt: u64, actor: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U64 + SZ_ADDRESS);
         w.writeU64(orderId);
         w.writeAddress(buyer);
         w.writeU64(acceptedAt);
+        w.writeAddress(actor);      // [U6-20]
         super('OrderAccepted', w);
     }
 }
 
 @final
 class OrderFundedEvent extends NetEvent {
-    constructor(orderId: u64, buyer: Address, amount: u256) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256);
+    constructor(orderId: u64, buyer: Address, amount: u256, actor: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_ADDRESS);
         w.writeU64(orderId);
         w.writeAddress(buyer);
         w.writeU256(amount);
+        w.writeAddress(actor);      // [U6-20]
         super('OrderFunded', w);
     }
 }
 
 @final
 class OrderCompletedEvent extends NetEvent {
-    constructor(orderId: u64, seller: Address, amount: u256) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256);
+    constructor(orderId: u64, seller: Address, amount: u256, actor: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_ADDRESS);
         w.writeU64(orderId);
         w.writeAddress(seller);
         w.writeU256(amount);
+        w.writeAddress(actor);      // [U6-20]
         super('OrderCompleted', w);
     }
 }
 
 @final
 class OrderCancelledEvent extends NetEvent {
-    constructor(orderId: u64, refundTo: Address, amount: u256) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256);
+    constructor(orderId: u64, refundTo: Address, amount: u256, actor: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_ADDRESS);
         w.writeU64(orderId);
         w.writeAddress(refundTo);
         w.writeU256(amount);
+        w.writeAddress(actor);      // [U6-20]
         super('OrderCancelled', w);
     }
 }
 
 @final
 class OrderDisputedEvent extends NetEvent {
-    constructor(orderId: u64, raisedBy: Address) {
-        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS);
+    constructor(orderId: u64, raisedBy: Address, actor: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_ADDRESS);
         w.writeU64(orderId);
-        w.writeAddress(raisedBy);
+        w.writeAddress(raisedBy);   // the party
+        w.writeAddress(actor);      // [U6-20] raisedBy or its operator
         super('OrderDisputed', w);
     }
 }
 
+// [U6-1] Emitted when the arbiter splits a disputed escrow.
+@final
+class DisputeResolvedEvent extends NetEvent {
+    constructor(
+        orderId: u64,
+        arbiter: Address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+        arbiterFee: u256,
+    ) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U256 + SZ_U256);
+        w.writeU64(orderId);
+        w.writeAddress(arbiter);
+        w.writeU256(sellerAmount);
+        w.writeU256(buyerAmount);
+        w.writeU256(arbiterFee);
+        super('DisputeResolved', w);
+    }
+}
+
 @final
 class ExcessSweptEvent extends NetEvent {
-    constructor(recipient: Address, amount: u256) {
-        const w = new BytesWriter(SZ_ADDRESS + SZ_U256);
+    constructor(recipient: Address, amount: u256, token: Address) {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_U256 + SZ_ADDRESS);
         w.writeAddress(recipient);
         w.writeU256(amount);
+        w.writeAddress(token);   // [U6-5]
         super('ExcessSwept', w);
     }
 }
 
+// [U6-3] Emitted whenever a seller payout is charged the protocol fee.
+// [U6-18] Exactly one of orderId / subscriptionId is non-zero.
+@final
+class ProtocolFeeAccruedEvent extends NetEvent {
+    constructor(orderId: u64, subscriptionId: u64, token: Address, fee: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_U64 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(orderId);
+        w.writeU64(subscriptionId);
+        w.writeAddress(token);
+        w.writeU256(fee);
+        super('ProtocolFeeAccrued', w);
+    }
+}
+
+// [U6-24] required = totalLocked + feesAccrued at the trip; balance
+// is the escrow balance (net of vote weight for mESC [U6-21]).
+@final
+class EscrowFrozenEvent extends NetEvent {
+    constructor(token: Address, balance: u256, required: u256, frozenAt: u64) {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_U256 + SZ_U256 + SZ_U64);
+        w.writeAddress(token);
+        w.writeU256(balance);
+        w.writeU256(required);
+        w.writeU64(frozenAt);
+        super('EscrowFrozen', w);
+    }
+}
+
+// [U6-24]
+@final
+class EmergencyWithdrawalEvent extends NetEvent {
+    constructor(orderId: u64, buyer: Address, buyerShare: u256, seller: Address, sellerShare: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(orderId);
+        w.writeAddress(buyer);
+        w.writeU256(buyerShare);
+        w.writeAddress(seller);
+        w.writeU256(sellerShare);
+        super('EmergencyWithdrawal', w);
+    }
+}
+
+// [U6-24] A release from a frozen token paid `paid` of `owed`.
+@final
+class FrozenPayoutEvent extends NetEvent {
+    constructor(token: Address, recipient: Address, owed: u256, paid: u256) {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_ADDRESS + SZ_U256 + SZ_U256);
+        w.writeAddress(token);
+        w.writeAddress(recipient);
+        w.writeU256(owed);
+        w.writeU256(paid);
+        super('FrozenPayout', w);
+    }
+}
+
+// [U6-3] Emitted when accrued fees are paid out to the treasury.
+@final
+class FeesWithdrawnEvent extends NetEvent {
+    constructor(treasury: Address, token: Address, amount: u256) {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_ADDRESS + SZ_U256);
+        w.writeAddress(treasury);
+        w.writeAddress(token);
+        w.writeU256(amount);
+        super('FeesWithdrawn', w);
+    }
+}
+
 // [U5.1-1] Emitted on every successful faucet claim.
 @final
 class FaucetClaimedEvent extends NetEvent {
@@ -250,6 +855,417 @@ class FaucetClaimedEvent extends NetEvent {
     }
 }
 
+// [U6-21]
+@final
+class ProposalCreatedEvent extends NetEvent {
+    constructor(proposalId: u64, proposer: Address, param: u8, value: u256, votingEnds: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U8 + SZ_U256 + SZ_U64);
+        w.writeU64(proposalId);
+        w.writeAddress(proposer);
+        w.writeU8(param);
+        w.writeU256(value);
+        w.writeU64(votingEnds);
+        super('ProposalCreated', w);
+    }
+}
+
+// [U6-21] weight = mESC locked with the vote.
+@final
+class VoteCastEvent extends NetEvent {
+    constructor(proposalId: u64, voter: Address, support: bool, weight: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_BOOL + SZ_U256);
+        w.writeU64(proposalId);
+        w.writeAddress(voter);
+        w.writeBoolean(support);
+        w.writeU256(weight);
+        super('VoteCast', w);
+    }
+}
+
+// [U6-21]
+@final
+class VoteWithdrawnEvent extends NetEvent {
+    constructor(proposalId: u64, voter: Address, amount: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(proposalId);
+        w.writeAddress(voter);
+        w.writeU256(amount);
+        super('VoteWithdrawn', w);
+    }
+}
+
+// [U6-21]
+@final
+class ProposalExecutedEvent extends NetEvent {
+    constructor(proposalId: u64, param: u8, oldValue: u256, newValue: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_U8 + SZ_U256 + SZ_U256);
+        w.writeU64(proposalId);
+        w.writeU8(param);
+        w.writeU256(oldValue);
+        w.writeU256(newValue);
+        super('ProposalExecuted', w);
+    }
+}
+
+// [U6-2] Emitted for every tranche paid out by releaseMilestone.
+@final
+class MilestoneReleasedEvent extends NetEvent {
+    constructor(orderId: u64, index: u8, seller: Address, amount: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_U8 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(orderId);
+        w.writeU8(index);
+        w.writeAddress(seller);
+        w.writeU256(amount);
+        super('MilestoneReleased', w);
+    }
+}
+
+// [U6-4] Settlement lifecycle events.
+@final
+class SettlementProposedEvent extends NetEvent {
+    constructor(orderId: u64, proposer: Address, sellerAmount: u256, buyerAmount: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U256);
+        w.writeU64(orderId);
+        w.writeAddress(proposer);
+        w.writeU256(sellerAmount);
+        w.writeU256(buyerAmount);
+        super('SettlementProposed', w);
+    }
+}
+
+@final
+class SettlementWithdrawnEvent extends NetEvent {
+    constructor(orderId: u64, proposer: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS);
+        w.writeU64(orderId);
+        w.writeAddress(proposer);
+        super('SettlementWithdrawn', w);
+    }
+}
+
+@final
+class SettlementExecutedEvent extends NetEvent {
+    constructor(orderId: u64, acceptedBy: Address, sellerAmount: u256, buyerAmount: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U256);
+        w.writeU64(orderId);
+        w.writeAddress(acceptedBy);
+        w.writeU256(sellerAmount);
+        w.writeU256(buyerAmount);
+        super('SettlementExecuted', w);
+    }
+}
+
+// [U6-14]
+@final
+class OrderDeliveredEvent extends NetEvent {
+    constructor(orderId: u64, seller: Address, deliveredAt: u64, reviewEndsAt: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U64 + SZ_U64);
+        w.writeU64(orderId);
+        w.writeAddress(seller);
+        w.writeU64(deliveredAt);
+        w.writeU64(reviewEndsAt);
+        super('OrderDelivered', w);
+    }
+}
+
+// [U6-15]
+@final
+class DeadlineExtensionProposedEvent extends NetEvent {
+    constructor(orderId: u64, proposer: Address, newDeadline: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U64);
+        w.writeU64(orderId);
+        w.writeAddress(proposer);
+        w.writeU64(newDeadline);
+        super('DeadlineExtensionProposed', w);
+    }
+}
+
+// [U6-15] `approver` is the address whose call applied the change.
+@final
+class DeadlineExtendedEvent extends NetEvent {
+    constructor(orderId: u64, approver: Address, oldDeadline: u64, newDeadline: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U64 + SZ_U64);
+        w.writeU64(orderId);
+        w.writeAddress(approver);
+        w.writeU64(oldDeadline);
+        w.writeU64(newDeadline);
+        super('DeadlineExtended', w);
+    }
+}
+
+// [U6-17]
+@final
+class ListingCreatedEvent extends NetEvent {
+    constructor(
+        listingId: u64,
+        seller: Address,
+        unitPrice: u256,
+        units: u32,
+        deliveryBlocks: u64,
+        paymentToken: Address,
+        termsHash: u256,
+    ) {
+        const w = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U32 + SZ_U64 + SZ_ADDRESS + SZ_U256
+        );
+        w.writeU64(listingId);
+        w.writeAddress(seller);
+        w.writeU256(unitPrice);
+        w.writeU32(units);
+        w.writeU64(deliveryBlocks);
+        w.writeAddress(paymentToken);
+        w.writeU256(termsHash);
+        super('ListingCreated', w);
+    }
+}
+
+// [U6-17]
+@final
+class ListingPurchasedEvent extends NetEvent {
+    constructor(listingId: u64, orderId: u64, buyer: Address, unitsLeft: u32) {
+        const w = new BytesWriter(SZ_U64 + SZ_U64 + SZ_ADDRESS + SZ_U32);
+        w.writeU64(listingId);
+        w.writeU64(orderId);
+        w.writeAddress(buyer);
+        w.writeU32(unitsLeft);
+        super('ListingPurchased', w);
+    }
+}
+
+// [U6-17]
+@final
+class ListingClosedEvent extends NetEvent {
+    constructor(listingId: u64, seller: Address, unitsLeft: u32) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U32);
+        w.writeU64(listingId);
+        w.writeAddress(seller);
+        w.writeU32(unitsLeft);
+        super('ListingClosed', w);
+    }
+}
+
+// [U6-18]
+@final
+class SubscriptionCreatedEvent extends NetEvent {
+    constructor(
+        subId: u64,
+        buyer: Address,
+        seller: Address,
+        pricePerPeriod: u256,
+        periodBlocks: u64,
+        periods: u16,
+        paymentToken: Address,
+        startBlock: u64,
+    ) {
+        const w = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_ADDRESS + SZ_U256 +
+            SZ_U64 + SZ_U16 + SZ_ADDRESS + SZ_U64
+        );
+        w.writeU64(subId);
+        w.writeAddress(buyer);
+        w.writeAddress(seller);
+        w.writeU256(pricePerPeriod);
+        w.writeU64(periodBlocks);
+        w.writeU16(periods);
+        w.writeAddress(paymentToken);
+        w.writeU64(startBlock);
+        super('SubscriptionCreated', w);
+    }
+}
+
+// [U6-18] `amount` is net of `fee`.
+@final
+class SubscriptionClaimedEvent extends NetEvent {
+    constructor(subId: u64, period: u16, seller: Address, amount: u256, fee: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_U16 + SZ_ADDRESS + SZ_U256 + SZ_U256);
+        w.writeU64(subId);
+        w.writeU16(period);
+        w.writeAddress(seller);
+        w.writeU256(amount);
+        w.writeU256(fee);
+        super('SubscriptionClaimed', w);
+    }
+}
+
+// [U6-18] `held` stays locked until the period is resolved.
+@final
+class SubscriptionDisputedEvent extends NetEvent {
+    constructor(subId: u64, period: u16, buyer: Address, held: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_U16 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(subId);
+        w.writeU16(period);
+        w.writeAddress(buyer);
+        w.writeU256(held);
+        super('SubscriptionDisputed', w);
+    }
+}
+
+// [U6-18] resolvedBy: the arbiter, or the buyer on a timed-out refund.
+@final
+class SubscriptionResolvedEvent extends NetEvent {
+    constructor(
+        subId: u64,
+        period: u16,
+        resolvedBy: Address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+        arbiterFee: u256,
+    ) {
+        const w = new BytesWriter(
+            SZ_U64 + SZ_U16 + SZ_ADDRESS + SZ_U256 + SZ_U256 + SZ_U256
+        );
+        w.writeU64(subId);
+        w.writeU16(period);
+        w.writeAddress(resolvedBy);
+        w.writeU256(sellerAmount);
+        w.writeU256(buyerAmount);
+        w.writeU256(arbiterFee);
+        super('SubscriptionResolved', w);
+    }
+}
+
+// [U6-18]
+@final
+class SubscriptionCancelledEvent extends NetEvent {
+    constructor(subId: u64, caller: Address, activePeriods: u16, refund: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U16 + SZ_U256);
+        w.writeU64(subId);
+        w.writeAddress(caller);
+        w.writeU16(activePeriods);
+        w.writeU256(refund);
+        super('SubscriptionCancelled', w);
+    }
+}
+
+// [U6-19] role: ROLE_SELLER or ROLE_BUYER.
+@final
+class RoleTransferredEvent extends NetEvent {
+    constructor(orderId: u64, role: u8, from: Address, to: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_U8 + SZ_ADDRESS + SZ_ADDRESS);
+        w.writeU64(orderId);
+        w.writeU8(role);
+        w.writeAddress(from);
+        w.writeAddress(to);
+        super('RoleTransferred', w);
+    }
+}
+
+// [U6-20] mask = 0 revokes.
+@final
+class OperatorSetEvent extends NetEvent {
+    constructor(owner: Address, operator: Address, mask: u32) {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_ADDRESS + SZ_U32);
+        w.writeAddress(owner);
+        w.writeAddress(operator);
+        w.writeU32(mask);
+        super('OperatorSet', w);
+    }
+}
+
+// [U6-9] Emitted for every evidence hash attached to a dispute.
+@final
+class EvidenceSubmittedEvent extends NetEvent {
+    constructor(orderId: u64, submitter: Address, evidenceHash: u256, index: u32) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U32);
+        w.writeU64(orderId);
+        w.writeAddress(submitter);
+        w.writeU256(evidenceHash);
+        w.writeU32(index);
+        super('EvidenceSubmitted', w);
+    }
+}
+
+// [U6-11] Emitted when a non-zero seller bond leaves escrow.
+@final
+class BondReleasedEvent extends NetEvent {
+    constructor(orderId: u64, recipient: Address, amount: u256) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS + SZ_U256);
+        w.writeU64(orderId);
+        w.writeAddress(recipient);
+        w.writeU256(amount);
+        super('BondReleased', w);
+    }
+}
+
+// [U6-13]
+@final
+class RequestCreatedEvent extends NetEvent {
+    constructor(
+        requestId: u64,
+        buyer: Address,
+        budget: u256,
+        deadline: u64,
+        paymentToken: Address,
+        termsHash: u256,
+    ) {
+        const w = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U64 + SZ_ADDRESS + SZ_U256
+        );
+        w.writeU64(requestId);
+        w.writeAddress(buyer);
+        w.writeU256(budget);
+        w.writeU64(deadline);
+        w.writeAddress(paymentToken);
+        w.writeU256(termsHash);
+        super('RequestCreated', w);
+    }
+}
+
+// [U6-13]
+@final
+class BidSubmittedEvent extends NetEvent {
+    constructor(requestId: u64, bidId: u32, seller: Address, price: u256, deadline: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_U32 + SZ_ADDRESS + SZ_U256 + SZ_U64);
+        w.writeU64(requestId);
+        w.writeU32(bidId);
+        w.writeAddress(seller);
+        w.writeU256(price);
+        w.writeU64(deadline);
+        super('BidSubmitted', w);
+    }
+}
+
+// [U6-13]
+@final
+class BidSelectedEvent extends NetEvent {
+    constructor(requestId: u64, bidId: u32, orderId: u64) {
+        const w = new BytesWriter(SZ_U64 + SZ_U32 + SZ_U64);
+        w.writeU64(requestId);
+        w.writeU32(bidId);
+        w.writeU64(orderId);
+        super('BidSelected', w);
+    }
+}
+
+// [U6-13]
+@final
+class RequestCancelledEvent extends NetEvent {
+    constructor(requestId: u64, buyer: Address) {
+        const w = new BytesWriter(SZ_U64 + SZ_ADDRESS);
+        w.writeU64(requestId);
+        w.writeAddress(buyer);
+        super('RequestCancelled', w);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────
+//  ORDER OPTIONS
+//
+//  Optional per-order settings shared by every create selector.
+//  Parsed by _readOrderOptions(), validated and persisted by
+//  _initOrder().  Zero values mean "feature not used".
+// ─────────────────────────────────────────────────────────────
+
+@final
+class OrderOptions {
+    arbiter: Address   = Address.fromU256(u256.Zero); // [U6-1]
+    arbiterFeeBps: u16 = 0;                           // [U6-1]
+    paymentToken: Address = Address.fromU256(u256.Zero); // [U6-5] zero = native mESC
+    termsHash: u256    = u256.Zero;                   // [U6-6] zero = no commitment
+    bond: u256         = u256.Zero;                   // [U6-11] zero = unbonded
+    allowedBuyers: Address[] = [];                    // [U6-12] empty = open to anyone
+}
+
 // ─────────────────────────────────────────────────────────────
 //  MAIN CONTRACT
 // ─────────────────────────────────────────────────────────────
@@ -277,8 +1293,17 @@ export class ServiceMarketplace extends DeployableOP_20 {
     //    _unlock()            → set _locked = false
     //    every mutating entry point calls _requireNotLocked() then
     //    _lock() at the top, and _unlock() before returning.
+    //
+    //  [U6-8] `_inBatch` marks an open multicall frame.  The lock
+    //  stays held for the whole batch: _unlock() is a no-op inside
+    //  it, and `_batchItem` lets exactly one _requireNotLocked()
+    //  pass — the one at the top of the item multicall is
+    //  dispatching.  A call-back during the item, or a nested
+    //  multicall, still reverts.
     // ─────────────────────────────────────────────────────────
     private _locked: bool = false;
+    private _inBatch: bool = false;
+    private _batchItem: bool = false;
 
     // ── Lifecycle ─────────────────────────────────────────────
 
@@ -290,10 +1315,65 @@ export class ServiceMarketplace extends DeployableOP_20 {
 
     /**
      * Runs exactly once at deployment.
-     * Initialises the OP-20 token shell and both global counters.
+     * Initialises the OP-20 token shell and the global registers.
+     *
+     * Deployment calldata:
+     *   addr treasury        [U6-3]  sole recipient of protocol fees; immutable
+     *   u256 maxSupply       [U6-22] 0 < maxSupply ≤ TOKEN_MAX_SUPPLY
+     *   u64  minDeadline     [U6-22] \
+     *   u64  acceptTimeout   [U6-22]  } blocks, 0 < v ≤ MAX_PARAM_BLOCKS
+     *   u64  disputeTimeout  [U6-22] /
+     *   bool faucetEnabled   [U6-22]
+     *   u256 faucetAmount    [U6-22] 0 < v ≤ MAX_FAUCET_AMOUNT  } checked only
+     *   u64  faucetCooldown  [U6-22] MIN_FAUCET_COOLDOWN ≤ v     } if enabled
+     *                                ≤ MAX_PARAM_BLOCKS
+     *   u256 initialMint     [U6-22] minted to the treasury, ≤ maxSupply;
+     *                                > 0 if the faucet is disabled, which
+     *                                would otherwise leave no way to mint
+     *
+     * [U6-22] The timeouts and faucet values seed the governed
+     * parameters; governance may change them later.
      */
-    public override onDeployment(_calldata: Calldata): void {
-        const maxSupply = u256.fromString(TOKEN_MAX_SUPPLY);
+    public override onDeployment(calldata: Calldata): void {
+        // [U6-3]
+        const treasury: Address = calldata.readAddress();
+        this._requireNonZeroAddress(treasury);
+
+        // [U6-22]
+        const maxSupply: u256      = calldata.readU256();
+        const minDeadline: u64     = calldata.readU64();
+        const acceptTimeout: u64   = calldata.readU64();
+        const disputeTimeout: u64  = calldata.readU64();
+        const faucetEnabled: bool  = calldata.readBoolean();
+        const faucetAmount: u256   = calldata.readU256();
+        const faucetCooldown: u64  = calldata.readU64();
+        const initialMint: u256    = calldata.readU256();
+
+        if (u256.eq(maxSupply, u256.Zero) || u256.gt(maxSupply, u256.fromString(TOKEN_MAX_SUPPLY))) {
+            throw new Revert('ServiceMarketplace: config max supply out of range');
+        }
+        if (
+            !this._validBlockCount(minDeadline) ||
+            !this._validBlockCount(acceptTimeout) ||
+            !this._validBlockCount(disputeTimeout)
+        ) {
+            throw new Revert('ServiceMarketplace: config timeouts must be 1..' + MAX_PARAM_BLOCKS.toString());
+        }
+        if (faucetEnabled) {
+            // [U6-21] Same bounds governance is held to.
+            if (!this._validParamValue(PARAM_FAUCET_AMOUNT, faucetAmount)) {
+                throw new Revert('ServiceMarketplace: config faucet amount out of range');
+            }
+            if (!this._validParamValue(PARAM_FAUCET_COOLDOWN, u256.fromU64(faucetCooldown))) {
+                throw new Revert('ServiceMarketplace: config faucet cooldown out of range');
+            }
+        } else if (u256.eq(initialMint, u256.Zero)) {
+            throw new Revert('ServiceMarketplace: config needs an initial mint when the faucet is disabled');
+        }
+        if (u256.gt(initialMint, maxSupply)) {
+            throw new Revert('ServiceMarketplace: config initial mint exceeds max supply');
+        }
+
         this.instantiate(new OP20InitParameters(
             maxSupply,
             TOKEN_DECIMALS,
@@ -303,6 +1383,22 @@ export class ServiceMarketplace extends DeployableOP_20 {
 
         Blockchain.setStorageAt(PTR_ORDER_COUNT,  u256.Zero, u256.Zero);
         Blockchain.setStorageAt(PTR_TOTAL_LOCKED, u256.Zero, u256.Zero);
+        Blockchain.setStorageAt(PTR_FEES_ACCRUED, u256.Zero, u256.Zero);  // [U6-3] native token
+        Blockchain.setStorageAt(PTR_TREASURY,     u256.Zero, treasury.toU256());
+        Blockchain.setStorageAt(PTR_SCHEMA_VERSION, u256.Zero, u256.fromU32(SCHEMA_CURRENT));  // [U6-23]
+
+        // [U6-22]
+        this._writeParam(PARAM_MIN_DEADLINE,    u256.fromU64(minDeadline));
+        this._writeParam(PARAM_ACCEPT_TIMEOUT,  u256.fromU64(acceptTimeout));
+        this._writeParam(PARAM_DISPUTE_TIMEOUT, u256.fromU64(disputeTimeout));
+        if (faucetEnabled) {
+            this._writeParam(PARAM_FAUCET_AMOUNT,   faucetAmount);
+            this._writeParam(PARAM_FAUCET_COOLDOWN, u256.fromU64(faucetCooldown));
+            Blockchain.setStorageAt(PTR_FAUCET_ON, u256.Zero, u256.One);
+        }
+        if (!u256.eq(initialMint, u256.Zero)) {
+            this.mint(treasury, initialMint);
+        }
     }
 
     // ─────────────────────────────────────────────────────────
@@ -315,66 +1411,289 @@ export class ServiceMarketplace extends DeployableOP_20 {
     //
     //  Unknown selectors delegate to super.callMethod() so all
     //  OP-20 built-ins (transfer, approve, balanceOf …) remain live.
+    //
+    //  [U6-8] The switch lives in _dispatch() so that multicall can
+    //  route its items through it without re-entering callMethod().
     // ─────────────────────────────────────────────────────────
     public override callMethod(method: Selector, calldata: Calldata): BytesWriter {
+        return this._dispatch(method, calldata);
+    }
+
+    private _dispatch(method: Selector, calldata: Calldata): BytesWriter {
         switch (method) {
 
-            case encodeSelector('createOrder(uint256,uint64)'):
+            case encodeSelector('createOrder(uint256,uint64,address,uint16,address,bytes32,uint256,address[])'):
                 return this._createOrder(calldata);
 
-            case encodeSelector('acceptOrder(uint64)'):
-                return this._acceptOrder(calldata);
+            // [U6-2]
+            case encodeSelector('createMilestoneOrder(uint256[],uint64[],address,uint16,address,bytes32,uint256,address[])'):
+                return this._createMilestoneOrder(calldata);
+
+            // [U6-16]
+            case encodeSelector('updateOrder(uint64,uint256,uint64)'):
+                return this._updateOrder(calldata);
+
+            case encodeSelector('acceptOrder(uint64,bytes32)'):
+                return this._acceptOrder(calldata, false);
+
+            // [U6-20]
+            case encodeSelector('acceptOrderFor(uint64,bytes32,address)'):
+                return this._acceptOrder(calldata, true);
 
-            case encodeSelector('fundOrder(uint64)'):
+            case encodeSelector('setOperator(address,uint32)'):
+                return this._setOperator(calldata);
+
+            case encodeSelector('fundOrder(uint64,uint32)'):
                 return this._fundOrder(calldata);
 
             case encodeSelector('confirmCompletion(uint64)'):
                 return this._confirmCompletion(calldata);
 
+            // [U6-14]
+            case encodeSelector('markDelivered(uint64)'):
+                return this._markDelivered(calldata);
+
+            case encodeSelector('claimAutoRelease(uint64)'):
+                return this._claimAutoRelease(calldata);
+
             case encodeSelector('cancelOrder(uint64)'):
                 return this._cancelOrder(calldata);
 
+            // [U6-8] Batching.
+            case encodeSelector('cancelOrders(uint64[],bool)'):
+                return this._cancelOrders(calldata);
+
+            case encodeSelector('multicall(bytes[],bool)'):
+                return this._multicall(calldata);
+
             case encodeSelector('openDispute(uint64)'):
                 return this._openDispute(calldata);
 
-            case encodeSelector('sweepExcess()'):
-                return this._sweepExcess();
+            // [U6-2]
+            case encodeSelector('releaseMilestone(uint64,uint8)'):
+                return this._releaseMilestone(calldata);
 
-            // [U5.1-1] Permissionless faucet claim.
-            case encodeSelector('claimFaucet()'):
-                return this._claimFaucet();
+            // [U6-17] Multi-unit listings.
+            case encodeSelector('createListing(uint256,uint64,uint32,address,uint16,address,bytes32)'):
+                return this._createListing(calldata);
 
-            case encodeSelector('getOrder(uint64)'):
-                return this._getOrder(calldata);
 
-            case encodeSelector('getEscrowStats()'):
-                return this._getEscrowStats();
+            case encodeSelector('closeListing(uint64)'):
+                return this._closeListing(calldata);
 
-            default:
-                return super.callMethod(method, calldata);
-        }
-    }
+            // [U6-18] Subscriptions.
+            case encodeSelector('createSubscription(address,uint256,uint64,uint16,address,uint16,address,bytes32)'):
+                return this._createSubscription(calldata);
 
-    // ─────────────────────────────────────────────────────────
-    //  [U5-3] REENTRANCY GUARD INTERNALS
-    // ─────────────────────────────────────────────────────────
+            case encodeSelector('claimSubscriptionPeriod(uint64,uint16)'):
+                return this._claimSubscriptionPeriod(calldata);
 
-    @inline
-    private _requireNotLocked(): void {
-        if (this._locked) {
-            throw new Revert('ServiceMarketplace: reentrant call detected');
-        }
-    }
+            case encodeSelector('disputeSubscriptionPeriod(uint64,uint16)'):
+                return this._disputeSubscriptionPeriod(calldata);
 
-    @inline
-    private _lock(): void {
-        this._locked = true;
-    }
+            case encodeSelector('resolveSubscriptionPeriod(uint64,uint16,uint256)'):
+                return this._resolveSubscriptionPeriod(calldata);
 
-    @inline
-    private _unlock(): void {
-        this._locked = false;
-    }
+            case encodeSelector('refundSubscriptionPeriod(uint64,uint16)'):
+                return this._refundSubscriptionPeriod(calldata);
+
+            case encodeSelector('cancelSubscription(uint64)'):
+                return this._cancelSubscription(calldata);
+
+            // [U6-19]
+            case encodeSelector('transferSellerRole(uint64,address)'):
+                return this._transferRole(calldata, ROLE_SELLER);
+
+            case encodeSelector('transferBuyerRole(uint64,address)'):
+                return this._transferRole(calldata, ROLE_BUYER);
+
+            // [U6-15]
+            case encodeSelector('proposeDeadlineExtension(uint64,uint64)'):
+                return this._proposeDeadlineExtension(calldata);
+
+            case encodeSelector('approveDeadlineExtension(uint64)'):
+                return this._approveDeadlineExtension(calldata);
+
+            // [U6-13] Buyer requests and seller bids.
+            case encodeSelector('createRequest(uint256,uint64,address,uint16,address,bytes32)'):
+                return this._createRequest(calldata);
+
+            case encodeSelector('submitBid(uint64,uint256,uint64)'):
+                return this._submitBid(calldata);
+
+            case encodeSelector('selectBid(uint64,uint32,bool)'):
+                return this._selectBid(calldata);
+
+            case encodeSelector('cancelRequest(uint64)'):
+                return this._cancelRequest(calldata);
+
+            // [U6-9]
+            case encodeSelector('submitEvidence(uint64,bytes32)'):
+                return this._submitEvidence(calldata);
+
+            // [U6-1] Arbiter splits a disputed escrow.
+            case encodeSelector('resolveDispute(uint64,uint256)'):
+                return this._resolveDispute(calldata);
+
+            // [U6-4] Mutual settlement.
+            case encodeSelector('proposeSettlement(uint64,uint256)'):
+                return this._proposeSettlement(calldata);
+
+            case encodeSelector('withdrawSettlement(uint64)'):
+                return this._withdrawSettlement(calldata);
+
+            case encodeSelector('acceptSettlement(uint64,uint256)'):
+                return this._acceptSettlement(calldata);
+
+            case encodeSelector('sweepExcess(address)'):
+                return this._sweepExcess(calldata);
+
+            // [U6-3] Pays accrued protocol fees to the treasury.
+            case encodeSelector('withdrawFees(address)'):
+                return this._withdrawFees(calldata);
+
+            // [U6-24] Circuit breaker.
+            case encodeSelector('checkInvariant(address)'):
+                return this._checkInvariant(calldata);
+
+            case encodeSelector('emergencyWithdraw(uint64)'):
+                return this._emergencyWithdraw(calldata);
+
+            // [U5.1-1] Permissionless faucet claim.
+            case encodeSelector('claimFaucet()'):
+                return this._claimFaucet();
+
+            // [U6-21] Parameter governance.
+            case encodeSelector('createProposal(uint8,uint256)'):
+                return this._createProposal(calldata);
+
+            case encodeSelector('castVote(uint64,bool,uint256)'):
+                return this._castVote(calldata);
+
+            case encodeSelector('withdrawVote(uint64)'):
+                return this._withdrawVote(calldata);
+
+            case encodeSelector('executeProposal(uint64)'):
+                return this._executeProposal(calldata);
+
+            case encodeSelector('getOrder(uint64)'):
+                return this._getOrder(calldata);
+
+            // [U6-2]
+            case encodeSelector('getMilestones(uint64)'):
+                return this._getMilestones(calldata);
+
+            // [U6-9]
+            case encodeSelector('getEvidenceCount(uint64)'):
+                return this._getEvidenceCount(calldata);
+
+            // [U6-10]
+            case encodeSelector('getReputation(address)'):
+                return this._getReputation(calldata);
+
+            // [U6-15]
+            case encodeSelector('getDeadlineExtension(uint64)'):
+                return this._getDeadlineExtension(calldata);
+
+            // [U6-13]
+            case encodeSelector('getRequest(uint64)'):
+                return this._getRequest(calldata);
+
+            case encodeSelector('getBid(uint64,uint32)'):
+                return this._getBid(calldata);
+
+            // [U6-4]
+            case encodeSelector('getSettlement(uint64)'):
+                return this._getSettlement(calldata);
+
+            // [U6-7] Paged per-address order indexes.
+            case encodeSelector('getOrdersBySeller(address,uint64,uint32)'):
+                return this._getIndexPage(
+                    PTR_SELLER_IDX_N, PTR_SELLER_IDX, calldata.readAddress().toU256(), calldata
+                );
+
+            case encodeSelector('getOrdersByBuyer(address,uint64,uint32)'):
+                return this._getIndexPage(
+                    PTR_BUYER_IDX_N, PTR_BUYER_IDX, calldata.readAddress().toU256(), calldata
+                );
+
+            // [U6-21]
+            case encodeSelector('getProposal(uint64)'):
+                return this._getProposal(calldata);
+
+            case encodeSelector('getParameters()'):
+                return this._getParameters();
+
+            case encodeSelector('getOrderParameters(uint64)'):
+                return this._getOrderParameters(calldata);
+
+            // [U6-20]
+            case encodeSelector('getOperator(address,address)'):
+                return this._getOperator(calldata);
+
+            // [U6-19]
+            case encodeSelector('getPositionOwner(uint64,uint8)'):
+                return this._getPositionOwner(calldata);
+
+            // [U6-18]
+            case encodeSelector('getSubscription(uint64)'):
+                return this._getSubscription(calldata);
+
+            // [U6-17]
+            case encodeSelector('getListing(uint64)'):
+                return this._getListing(calldata);
+
+            case encodeSelector('getListingPurchases(uint64,uint64,uint32)'):
+                return this._getListingPurchases(calldata);
+
+            case encodeSelector('getEscrowStats()'):
+                return this._getEscrowStats();
+
+            // [U6-22]
+            case encodeSelector('getConfig()'):
+                return this._getConfig();
+
+            // [U6-23]
+            case encodeSelector('getSchemaInfo(uint64)'):
+                return this._getSchemaInfo(calldata);
+
+            // [U6-5]
+            case encodeSelector('getTokenEscrowStats(address)'):
+                return this._getTokenEscrowStats(calldata);
+
+            default:
+                return super.callMethod(method, calldata);
+        }
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  [U5-3] REENTRANCY GUARD INTERNALS
+    // ─────────────────────────────────────────────────────────
+
+    @inline
+    private _requireNotLocked(): void {
+        if (this._locked) {
+            // [U6-8] The item multicall is dispatching, once.
+            if (this._batchItem) {
+                this._batchItem = false;
+                return;
+            }
+            throw new Revert('ServiceMarketplace: reentrant call detected');
+        }
+    }
+
+    @inline
+    private _lock(): void {
+        this._locked = true;
+    }
+
+    @inline
+    private _unlock(): void {
+        // [U6-8] Held until multicall itself closes the batch.
+        if (!this._inBatch) {
+            this._locked = false;
+        }
+    }
 
     // ─────────────────────────────────────────────────────────
     //  STORAGE ACCESSORS
@@ -399,6 +1718,63 @@ export class ServiceMarketplace extends DeployableOP_20 {
         return u256.fromU64(orderId);
     }
 
+    /**
+     * Two-dimensional subPointer: `base` (an orderId or a 160-bit
+     * address) in the low 192 bits, `index` in the top 64 bits.
+     */
+    @inline
+    private _pairSub(base: u256, index: u64): u256 {
+        return new u256(base.lo1, base.lo2, base.hi1, index);
+    }
+
+    // ── [U6-23] Schema stamp / lazy migration ─────────────────
+
+    private _readOrderSchema(orderId: u64): u32 {
+        return <u32>Blockchain.getStorageAt(PTR_ORDER_SCHEMA, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _writeOrderSchema(orderId: u64, version: u32): void {
+        Blockchain.setStorageAt(PTR_ORDER_SCHEMA, this._sub(orderId), u256.fromU32(version));
+    }
+
+    @inline
+    private _isLegacyOrder(orderId: u64): bool {
+        return this._readOrderSchema(orderId) < SCHEMA_CURRENT;
+    }
+
+    /**
+     * Brings `orderId` to SCHEMA_CURRENT by persisting exactly what
+     * the legacy-aware readers report for it.  Called only from
+     * _transition, so views stay write-free.  Unallocated ids
+     * (state NONE) are left alone.
+     *
+     *   SCHEMA_LEGACY → 1:
+     *     • PTR_ORDER_PARAMS ← the v5.1 constants
+     *     • PTR_DISPUTED_AT  ← deadline, for an order disputed
+     *       before it existed (the v5.1 force-refund anchor)
+     *     • PTR_ACCEPTED_AT  ← deadline, for an order accepted
+     *       before it existed (pre-[U5-1] the deadline was the
+     *       only limit on funding)
+     */
+    private _upgradeOrder(orderId: u64): void {
+        if (!this._isLegacyOrder(orderId)) return;
+        if (this._readState(orderId) === STATE_NONE) return;
+
+        // Read everything before the stamp turns the backfill off.
+        const params: u256    = this._readOrderParams(orderId);
+        const disputedAt: u64 = this._readDisputedAt(orderId);
+        const acceptedAt: u64 = this._readAcceptedAt(orderId);
+
+        Blockchain.setStorageAt(PTR_ORDER_PARAMS, this._sub(orderId), params);
+        this._writeDisputedAt(orderId, disputedAt);
+        this._writeAcceptedAt(orderId, acceptedAt);
+        this._writeOrderSchema(orderId, SCHEMA_CURRENT);
+
+        if (<u32>Blockchain.getStorageAt(PTR_SCHEMA_VERSION, u256.Zero, u256.Zero).lo1 < SCHEMA_CURRENT) {
+            Blockchain.setStorageAt(PTR_SCHEMA_VERSION, u256.Zero, u256.fromU32(SCHEMA_CURRENT));
+        }
+    }
+
     // ── State ─────────────────────────────────────────────────
 
     private _readState(orderId: u64): u8 {
@@ -424,13 +1800,67 @@ export class ServiceMarketplace extends DeployableOP_20 {
     // ── [U5-1] Accepted-at block ──────────────────────────────
 
     private _readAcceptedAt(orderId: u64): u64 {
-        return Blockchain.getStorageAt(PTR_ACCEPTED_AT, this._sub(orderId), u256.Zero).lo1;
+        const stored: u64 = Blockchain.getStorageAt(PTR_ACCEPTED_AT, this._sub(orderId), u256.Zero).lo1;
+        // [U6-23] Legacy backfill (see _upgradeOrder).
+        if (
+            stored === 0 && this._isLegacyOrder(orderId) &&
+            this._readState(orderId) === STATE_ACCEPTED
+        ) {
+            return this._readDeadline(orderId);
+        }
+        return stored;
     }
 
     private _writeAcceptedAt(orderId: u64, blockNum: u64): void {
         Blockchain.setStorageAt(PTR_ACCEPTED_AT, this._sub(orderId), u256.fromU64(blockNum));
     }
 
+    // ── [U6-9] Disputed-at block / evidence count ─────────────
+
+    private _readDisputedAt(orderId: u64): u64 {
+        const stored: u64 = Blockchain.getStorageAt(PTR_DISPUTED_AT, this._sub(orderId), u256.Zero).lo1;
+        // [U6-23] Legacy backfill (see _upgradeOrder).
+        if (
+            stored === 0 && this._isLegacyOrder(orderId) &&
+            this._readState(orderId) === STATE_DISPUTED
+        ) {
+            return this._readDeadline(orderId);
+        }
+        return stored;
+    }
+
+    private _writeDisputedAt(orderId: u64, blockNum: u64): void {
+        Blockchain.setStorageAt(PTR_DISPUTED_AT, this._sub(orderId), u256.fromU64(blockNum));
+    }
+
+    private _readEvidenceCount(orderId: u64): u32 {
+        return <u32>Blockchain.getStorageAt(PTR_EVIDENCE_N, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _writeEvidenceCount(orderId: u64, count: u32): void {
+        Blockchain.setStorageAt(PTR_EVIDENCE_N, this._sub(orderId), u256.fromU32(count));
+    }
+
+    // ── [U6-14] Delivered-at block ────────────────────────────
+
+    private _readDeliveredAt(orderId: u64): u64 {
+        return Blockchain.getStorageAt(PTR_DELIVERED_AT, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _writeDeliveredAt(orderId: u64, blockNum: u64): void {
+        Blockchain.setStorageAt(PTR_DELIVERED_AT, this._sub(orderId), u256.fromU64(blockNum));
+    }
+
+    // ── [U6-16] Listing revision ──────────────────────────────
+
+    private _readRevision(orderId: u64): u32 {
+        return <u32>Blockchain.getStorageAt(PTR_REVISION, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _writeRevision(orderId: u64, revision: u32): void {
+        Blockchain.setStorageAt(PTR_REVISION, this._sub(orderId), u256.fromU32(revision));
+    }
+
     // ── Price / Locked ────────────────────────────────────────
 
     private _readPrice(orderId: u64): u256 {
@@ -471,355 +1901,4796 @@ export class ServiceMarketplace extends DeployableOP_20 {
         Blockchain.setStorageAt(PTR_BUYER, this._sub(orderId), addr.toU256());
     }
 
-    // ── Global counters ───────────────────────────────────────
+    // ── [U6-1] Arbiter / arbiter fee ──────────────────────────
 
-    private _readOrderCount(): u64 {
-        return Blockchain.getStorageAt(PTR_ORDER_COUNT, u256.Zero, u256.Zero).lo1;
+    private _readArbiter(orderId: u64): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_ARBITER, this._sub(orderId), u256.Zero)
+        );
     }
 
-    private _nextOrderId(): u64 {
-        const current: u64 = this._readOrderCount();
-        if (current === u64.MAX_VALUE) {
-            throw new Revert('ServiceMarketplace: order ID overflow');
-        }
-        const next: u64 = current + 1;
-        Blockchain.setStorageAt(PTR_ORDER_COUNT, u256.Zero, u256.fromU64(next));
-        return next;
+    private _writeArbiter(orderId: u64, addr: Address): void {
+        Blockchain.setStorageAt(PTR_ARBITER, this._sub(orderId), addr.toU256());
     }
 
-    private _readTotalLocked(): u256 {
-        return Blockchain.getStorageAt(PTR_TOTAL_LOCKED, u256.Zero, u256.Zero);
+    private _readArbiterFeeBps(orderId: u64): u16 {
+        return <u16>(
+            Blockchain.getStorageAt(PTR_ARBITER_FEE, this._sub(orderId), u256.Zero).lo1 & 0xFFFF
+        );
     }
 
-    private _writeTotalLocked(value: u256): void {
-        Blockchain.setStorageAt(PTR_TOTAL_LOCKED, u256.Zero, value);
+    private _writeArbiterFeeBps(orderId: u64, bps: u16): void {
+        Blockchain.setStorageAt(PTR_ARBITER_FEE, this._sub(orderId), u256.fromU32(<u32>bps));
     }
 
-    // ── [U5.1-1] Faucet last-claim block per address ──────────
+    // ── [U6-2] Milestones ─────────────────────────────────────
 
-    /**
-     * Returns the block number of the given address's last successful
-     * faucet claim.  Returns 0 for addresses that have never claimed.
-     * subPointer = addr.toU256() scopes the slot uniquely per address.
-     */
-    private _readLastClaimBlock(addr: Address): u64 {
-        return Blockchain.getStorageAt(PTR_LAST_CLAIM, addr.toU256(), u256.Zero).lo1;
+    private _readMilestoneCount(orderId: u64): u8 {
+        return <u8>(
+            Blockchain.getStorageAt(PTR_MS_COUNT, this._sub(orderId), u256.Zero).lo1 & 0xFF
+        );
     }
 
-    private _writeLastClaimBlock(addr: Address, blockNum: u64): void {
-        Blockchain.setStorageAt(PTR_LAST_CLAIM, addr.toU256(), u256.fromU64(blockNum));
+    private _writeMilestoneCount(orderId: u64, count: u8): void {
+        Blockchain.setStorageAt(PTR_MS_COUNT, this._sub(orderId), u256.fromU32(<u32>count));
     }
 
-    // ─────────────────────────────────────────────────────────
-    //  VALIDATION HELPERS
-    // ─────────────────────────────────────────────────────────
-
-    /**
-     * [V4-U1] Explicit order existence guard.
-     * Called at the top of every mutating and view entry point.
-     * Does NOT rely on STATE_NONE as a proxy for "not found."
-     */
-    private _requireOrderExists(orderId: u64): void {
-        if (orderId === 0) {
-            throw new Revert('ServiceMarketplace: orderId 0 is invalid');
-        }
-        if (orderId > this._readOrderCount()) {
-            throw new Revert('ServiceMarketplace: order does not exist');
-        }
+    private _readMilestonesReleased(orderId: u64): u8 {
+        return <u8>(
+            Blockchain.getStorageAt(PTR_MS_RELEASED, this._sub(orderId), u256.Zero).lo1 & 0xFF
+        );
     }
 
-    /**
-     * [V4-U4] Formal state transition guard.
-     * The sole path for all state mutations in entry functions.
-     * Asserts current state == from before writing to.
-     */
-    private _transition(orderId: u64, from: u8, to: u8): void {
-        const current = this._readState(orderId);
-        if (current !== from) {
-            throw new Revert(
-                'ServiceMarketplace: invalid transition — current ' +
-                current.toString() +
-                ', expected ' + from.toString() +
-                ', target '   + to.toString()
-            );
-        }
-        this._writeState(orderId, to);
+    private _writeMilestonesReleased(orderId: u64, count: u8): void {
+        Blockchain.setStorageAt(PTR_MS_RELEASED, this._sub(orderId), u256.fromU32(<u32>count));
     }
 
-    /**
-     * All authentication uses Blockchain.sender exclusively.
-     * Blockchain.tx.sender does not exist in OPNet runtime.
-     */
-    private _requireCaller(expected: Address): void {
-        if (!Blockchain.sender.equals(expected)) {
-            throw new Revert('ServiceMarketplace: caller not authorised');
-        }
+    private _readMilestoneAmount(orderId: u64, index: u8): u256 {
+        return Blockchain.getStorageAt(
+            PTR_MS_AMOUNT, this._pairSub(this._sub(orderId), <u64>index), u256.Zero
+        );
     }
 
-    /**
-     * [U5-4] Explicit zero-address check.
-     * Called on seller (createOrder), buyer (acceptOrder), and
-     * all release recipients before funds are moved.
-     */
-    private _requireNonZeroAddress(addr: Address): void {
-        if (u256.eq(addr.toU256(), u256.Zero)) {
-            throw new Revert('ServiceMarketplace: zero address not allowed');
-        }
+    private _writeMilestoneAmount(orderId: u64, index: u8, amount: u256): void {
+        Blockchain.setStorageAt(
+            PTR_MS_AMOUNT, this._pairSub(this._sub(orderId), <u64>index), amount
+        );
     }
 
-    /**
-     * Blockchain.blockNumber returns u256.
-     * Always .toU64() before u64 comparisons.
-     */
-    @inline
-    private _currentBlock(): u64 {
-        return Blockchain.blockNumber.toU64();
+    private _readMilestoneDeadline(orderId: u64, index: u8): u64 {
+        return Blockchain.getStorageAt(
+            PTR_MS_DEADLINE, this._pairSub(this._sub(orderId), <u64>index), u256.Zero
+        ).lo1;
     }
 
-    private _requireDeadlineNotExpired(orderId: u64): void {
-        if (this._currentBlock() > this._readDeadline(orderId)) {
-            throw new Revert('ServiceMarketplace: deadline expired');
-        }
+    private _writeMilestoneDeadline(orderId: u64, index: u8, deadline: u64): void {
+        Blockchain.setStorageAt(
+            PTR_MS_DEADLINE, this._pairSub(this._sub(orderId), <u64>index), u256.fromU64(deadline)
+        );
     }
 
-    private _isDeadlineExpired(orderId: u64): bool {
-        return this._currentBlock() > this._readDeadline(orderId);
+    // ── [U6-5] Payment token ──────────────────────────────────
+
+    private _readPaymentToken(orderId: u64): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_TOKEN, this._sub(orderId), u256.Zero)
+        );
     }
 
-    @inline
-    private _isZeroAddress(addr: Address): bool {
-        return u256.eq(addr.toU256(), u256.Zero);
+    private _writePaymentToken(orderId: u64, token: Address): void {
+        Blockchain.setStorageAt(PTR_TOKEN, this._sub(orderId), token.toU256());
     }
 
-    // ─────────────────────────────────────────────────────────
-    //  NATIVE OP-20 BALANCE ESCROW  +  GLOBAL ACCOUNTING
-    //
-    //  balanceOfMap (AddressMemoryMap<u256>) is inherited from
-    //  DeployableOP_20 and IS the OP-20 token ledger.
-    //  Escrow = in-frame mutations of this map.
-    //
-    //  [V4-U3] Every lock/release also updates PTR_TOTAL_LOCKED.
-    //
-    //  Strengthened invariant (enforced in _escrowRelease):
-    //    contractBalance >= totalLocked
-    //
-    //  This invariant fires if any path drains contractBalance
-    //  without a matching totalLocked decrement — e.g., a direct
-    //  OP-20 transfer() call targeting the contract address.
-    // ─────────────────────────────────────────────────────────
+    // ── [U6-6] Terms commitment ───────────────────────────────
 
-    /**
-     * Lock `amount` from payer into contract escrow.
-     *
-     *   payer.balanceOfMap    -= amount
-     *   contract.balanceOfMap += amount
-     *   totalLocked           += amount
-     *
-     * Reverts if payer balance < amount.
-     */
-    private _escrowLock(payer: Address, amount: u256): void {
-        const payerBal: u256    = this.balanceOfMap.get(payer);
-        const contractAddr       = Blockchain.contractAddress;
-        const contractBal: u256 = this.balanceOfMap.get(contractAddr);
+    private _readTermsHash(orderId: u64): u256 {
+        return Blockchain.getStorageAt(PTR_TERMS, this._sub(orderId), u256.Zero);
+    }
 
-        if (u256.lt(payerBal, amount)) {
-            throw new Revert('ServiceMarketplace: insufficient OP-20 balance to fund escrow');
-        }
+    private _writeTermsHash(orderId: u64, termsHash: u256): void {
+        Blockchain.setStorageAt(PTR_TERMS, this._sub(orderId), termsHash);
+    }
 
-        const newPayer:    u256 = SafeMath.sub(payerBal,             amount);
-        const newContract: u256 = SafeMath.add(contractBal,          amount);
-        const newTotal:    u256 = SafeMath.add(this._readTotalLocked(), amount);
+    // ── [U6-4] Open settlement proposal ───────────────────────
 
-        this.balanceOfMap.set(payer,        newPayer);
-        this.balanceOfMap.set(contractAddr, newContract);
-        this._writeTotalLocked(newTotal);
+    private _readSettleProposer(orderId: u64): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_SETTLE_BY, this._sub(orderId), u256.Zero)
+        );
     }
 
-    /**
-     * Release `amount` from contract escrow to recipient.
-     *
-     *   contract.balanceOfMap -= amount
-     *   recipient.balanceOfMap += amount
-     *   totalLocked            -= amount
-     *
-     * [U5-4] Validates recipient is non-zero before any transfer.
-     *
-     * Three-layer guard:
-     *   (1) contractBalance >= totalLocked   (global invariant)
-     *   (2) totalLocked     >= amount        (underflow guard on register)
-     *   (3) contractBalance >= amount        (direct sufficiency check)
-     */
-    private _escrowRelease(recipient: Address, amount: u256): void {
-        if (u256.eq(amount, u256.Zero)) return;
+    private _readSettleAmount(orderId: u64): u256 {
+        return Blockchain.getStorageAt(PTR_SETTLE_AMT, this._sub(orderId), u256.Zero);
+    }
 
-        // [U5-4] Never release to zero address.
-        this._requireNonZeroAddress(recipient);
+    private _writeSettlement(orderId: u64, proposer: Address, sellerAmount: u256): void {
+        Blockchain.setStorageAt(PTR_SETTLE_BY,  this._sub(orderId), proposer.toU256());
+        Blockchain.setStorageAt(PTR_SETTLE_AMT, this._sub(orderId), sellerAmount);
+    }
 
-        const contractAddr       = Blockchain.contractAddress;
-        const contractBal: u256 = this.balanceOfMap.get(contractAddr);
-        const totalLocked: u256 = this._readTotalLocked();
+    private _clearSettlement(orderId: u64): void {
+        this._writeSettlement(orderId, Address.fromU256(u256.Zero), u256.Zero);
+    }
 
-        // Guard (1): primary invariant.
-        if (u256.lt(contractBal, totalLocked)) {
-            throw new Revert(
-                'ServiceMarketplace: CRITICAL — escrow invariant violated: ' +
-                'contractBalance < totalLocked'
+    // ── [U6-15] Open deadline extension proposal ──────────────
+
+    private _readExtProposer(orderId: u64): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_EXT_BY, this._sub(orderId), u256.Zero)
+        );
+    }
+
+    private _readExtDeadline(orderId: u64): u64 {
+        return Blockchain.getStorageAt(PTR_EXT_DEADLINE, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _writeExtension(orderId: u64, proposer: Address, newDeadline: u64): void {
+        Blockchain.setStorageAt(PTR_EXT_BY,       this._sub(orderId), proposer.toU256());
+        Blockchain.setStorageAt(PTR_EXT_DEADLINE, this._sub(orderId), u256.fromU64(newDeadline));
+    }
+
+    private _clearExtension(orderId: u64): void {
+        this._writeExtension(orderId, Address.fromU256(u256.Zero), 0);
+    }
+
+    // ── [U6-11] Seller bond ───────────────────────────────────
+
+    private _readBond(orderId: u64): u256 {
+        return Blockchain.getStorageAt(PTR_BOND, this._sub(orderId), u256.Zero);
+    }
+
+    private _writeBond(orderId: u64, amount: u256): void {
+        Blockchain.setStorageAt(PTR_BOND, this._sub(orderId), amount);
+    }
+
+    // ── [U6-12] Designated buyers ─────────────────────────────
+
+    private _readAllowedCount(orderId: u64): u8 {
+        return <u8>Blockchain.getStorageAt(PTR_ALLOW_N, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    private _readAllowedBuyer(orderId: u64, index: u8): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_ALLOW, this._pairSub(this._sub(orderId), <u64>index), u256.Zero)
+        );
+    }
+
+    private _writeAllowedBuyers(orderId: u64, buyers: Address[]): void {
+        for (let i: i32 = 0; i < buyers.length; i++) {
+            Blockchain.setStorageAt(
+                PTR_ALLOW, this._pairSub(this._sub(orderId), <u64>i), buyers[i].toU256()
+            );
+        }
+        Blockchain.setStorageAt(PTR_ALLOW_N, this._sub(orderId), u256.fromU32(<u32>buyers.length));
+    }
+
+    /** True if the order is open, or `addr` is one of its designated buyers. */
+    private _isAllowedBuyer(orderId: u64, addr: Address): bool {
+        const count: u8 = this._readAllowedCount(orderId);
+        if (count === 0) return true;
+        for (let i: u8 = 0; i < count; i++) {
+            if (addr.equals(this._readAllowedBuyer(orderId, i))) return true;
+        }
+        return false;
+    }
+
+    // ── Per-id record slots [U6-13] ───────────────────────────
+    //  Requests and listings [U6-17] keep one slot per field,
+    //  keyed by their own id through _sub().
+
+    private _readIdAddress(ptr: u16, id: u64): Address {
+        return Address.fromU256(Blockchain.getStorageAt(ptr, this._sub(id), u256.Zero));
+    }
+
+    private _readIdWord(ptr: u16, id: u64): u256 {
+        return Blockchain.getStorageAt(ptr, this._sub(id), u256.Zero);
+    }
+
+    private _writeIdWord(ptr: u16, id: u64, value: u256): void {
+        Blockchain.setStorageAt(ptr, this._sub(id), value);
+    }
+
+    // ── [U6-13] Buyer requests ────────────────────────────────
+    //  Keyed by requestId through _sub(); bids by
+    //  _pairSub(_sub(requestId), bidId).
+
+    private _readRequestCount(): u64 {
+        return Blockchain.getStorageAt(PTR_REQ_COUNT, u256.Zero, u256.Zero).lo1;
+    }
+
+    private _nextRequestId(): u64 {
+        const current: u64 = this._readRequestCount();
+        if (current === u64.MAX_VALUE) {
+            throw new Revert('ServiceMarketplace: request ID overflow');
+        }
+        const next: u64 = current + 1;
+        Blockchain.setStorageAt(PTR_REQ_COUNT, u256.Zero, u256.fromU64(next));
+        return next;
+    }
+
+    private _readRequestState(requestId: u64): u8 {
+        return <u8>this._readIdWord(PTR_REQ_STATE, requestId).lo1;
+    }
+
+    private _writeRequestState(requestId: u64, state: u8): void {
+        this._writeIdWord(PTR_REQ_STATE, requestId, u256.fromU32(<u32>state));
+    }
+
+    private _readBidCount(requestId: u64): u32 {
+        return <u32>this._readIdWord(PTR_BID_N, requestId).lo1;
+    }
+
+    private _bidSub(requestId: u64, bidId: u32): u256 {
+        return this._pairSub(this._sub(requestId), <u64>bidId);
+    }
+
+    private _readBidSeller(requestId: u64, bidId: u32): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_BID_SELLER, this._bidSub(requestId, bidId), u256.Zero)
+        );
+    }
+
+    private _readBidPrice(requestId: u64, bidId: u32): u256 {
+        return Blockchain.getStorageAt(PTR_BID_PRICE, this._bidSub(requestId, bidId), u256.Zero);
+    }
+
+    private _readBidDeadline(requestId: u64, bidId: u32): u64 {
+        return Blockchain.getStorageAt(PTR_BID_DEADLINE, this._bidSub(requestId, bidId), u256.Zero).lo1;
+    }
+
+    // ── [U6-17] Multi-unit listings ───────────────────────────
+    //  Keyed by listingId through _sub().  A listingId is an id
+    //  taken from the order counter that carries no order record;
+    //  a non-zero PTR_LST_SELLER marks it.
+
+    private _isListing(id: u64): bool {
+        return !u256.eq(this._readIdWord(PTR_LST_SELLER, id), u256.Zero);
+    }
+
+    private _readUnitsLeft(listingId: u64): u32 {
+        return <u32>this._readIdWord(PTR_LST_LEFT, listingId).lo1;
+    }
+
+    private _writeUnitsLeft(listingId: u64, units: u32): void {
+        this._writeIdWord(PTR_LST_LEFT, listingId, u256.fromU32(units));
+    }
+
+    private _isListingOpen(listingId: u64): bool {
+        return !u256.eq(this._readIdWord(PTR_LST_OPEN, listingId), u256.Zero);
+    }
+
+    private _readOrderListing(orderId: u64): u64 {
+        return Blockchain.getStorageAt(PTR_ORDER_LST, this._sub(orderId), u256.Zero).lo1;
+    }
+
+    /** Purchase slots hold their listing unit until cancelled. */
+    private _holdsListingUnit(orderId: u64): bool {
+        return Blockchain.getStorageAt(PTR_ORDER_LST, this._sub(orderId), u256.Zero).lo2 !== 0;
+    }
+
+    private _writeOrderListing(orderId: u64, listingId: u64, holdsUnit: bool): void {
+        Blockchain.setStorageAt(
+            PTR_ORDER_LST, this._sub(orderId),
+            new u256(listingId, holdsUnit ? 1 : 0, 0, 0)
+        );
+    }
+
+    /** Listing options as the OrderOptions of a fresh purchase. */
+    private _listingOptions(listingId: u64): OrderOptions {
+        const opts = new OrderOptions();
+        opts.arbiter       = this._readIdAddress(PTR_LST_ARBITER, listingId);
+        opts.arbiterFeeBps = <u16>this._readIdWord(PTR_LST_ARB_FEE, listingId).lo1;
+        opts.paymentToken  = this._readIdAddress(PTR_LST_TOKEN, listingId);
+        opts.termsHash     = this._readIdWord(PTR_LST_TERMS, listingId);
+        return opts;
+    }
+
+    // ── [U6-18] Subscriptions ─────────────────────────────────
+    //  Keyed by subId through _sub().
+
+    private _readSubCount(): u64 {
+        return Blockchain.getStorageAt(PTR_SUB_COUNT, u256.Zero, u256.Zero).lo1;
+    }
+
+    private _nextSubId(): u64 {
+        const current: u64 = this._readSubCount();
+        if (current === u64.MAX_VALUE) {
+            throw new Revert('ServiceMarketplace: subscription ID overflow');
+        }
+        const next: u64 = current + 1;
+        Blockchain.setStorageAt(PTR_SUB_COUNT, u256.Zero, u256.fromU64(next));
+        return next;
+    }
+
+    /** Bit `period` of a claimed / disputed bitmap. */
+    private _periodBit(period: u16): u256 {
+        return u256.shl(u256.One, <i32>period);
+    }
+
+    private _hasPeriodBit(ptr: u16, subId: u64, period: u16): bool {
+        return !u256.eq(u256.and(this._readIdWord(ptr, subId), this._periodBit(period)), u256.Zero);
+    }
+
+    private _setPeriodBit(ptr: u16, subId: u64, period: u16): void {
+        this._writeIdWord(ptr, subId, u256.or(this._readIdWord(ptr, subId), this._periodBit(period)));
+    }
+
+    /**
+     * Index of the period running at the current block (may be
+     * ≥ the active period count once the subscription has run out).
+     */
+    private _currentSubPeriod(subId: u64): u64 {
+        const start: u64  = this._readIdWord(PTR_SUB_START, subId).lo1;
+        const length: u64 = this._readIdWord(PTR_SUB_PERIOD, subId).lo1;
+        return (this._currentBlock() - start) / length;
+    }
+
+    /** Moves `amount` out of a subscription's locked balance. */
+    private _debitSub(subId: u64, amount: u256): void {
+        const locked: u256 = this._readIdWord(PTR_SUB_LOCKED, subId);
+        if (u256.lt(locked, amount)) {
+            throw new Revert('ServiceMarketplace: invariant error — subscription underfunded');
+        }
+        this._writeIdWord(PTR_SUB_LOCKED, subId, SafeMath.sub(locked, amount));
+    }
+
+    /** Disputed-and-unsettled: the period's price is held. */
+    private _isPeriodHeld(subId: u64, period: u16): bool {
+        return this._hasPeriodBit(PTR_SUB_DISPUTED, subId, period) &&
+            !this._hasPeriodBit(PTR_SUB_CLAIMED, subId, period);
+    }
+
+    private _readPeriodDisputedAt(subId: u64, period: u16): u64 {
+        return Blockchain.getStorageAt(
+            PTR_SUB_DISP_AT, this._pairSub(this._sub(subId), <u64>period), u256.Zero
+        ).lo1;
+    }
+
+    private _writePeriodDisputedAt(subId: u64, period: u16, block: u64): void {
+        Blockchain.setStorageAt(
+            PTR_SUB_DISP_AT, this._pairSub(this._sub(subId), <u64>period), u256.fromU64(block)
+        );
+    }
+
+    /**
+     * First block at which the buyer may reclaim a held period —
+     * the subscription counterpart of _forceRefundAt.
+     */
+    private _periodRefundAt(subId: u64, period: u16): u64 {
+        const anchor: u64  = this._readPeriodDisputedAt(subId, period);
+        const timeout: u64 = this._readIdWord(PTR_SUB_TIMEOUT, subId).lo1;
+        return (anchor > u64.MAX_VALUE - timeout)
+            ? u64.MAX_VALUE
+            : anchor + timeout;
+    }
+
+    /**
+     * Pays `gross` of a subscription's escrow to its seller less
+     * PROTOCOL_FEE_BPS — _payoutSeller for subscriptions.  The
+     * caller has already debited PTR_SUB_LOCKED.
+     * Returns the net amount the seller received.
+     *
+     * Emits: ProtocolFeeAccrued (only if fee > 0)
+     */
+    private _payoutSubSeller(subId: u64, seller: Address, gross: u256): u256 {
+        const token: Address = this._readIdAddress(PTR_SUB_TOKEN, subId);
+        const fee: u256      = this._bpsOf(gross, PROTOCOL_FEE_BPS);
+        const net: u256      = SafeMath.sub(gross, fee);
+
+        this._accrueFee(token, fee);
+        this._escrowRelease(token, seller, net);
+
+        if (!u256.eq(fee, u256.Zero)) {
+            this.emitEvent(new ProtocolFeeAccruedEvent(0, subId, token, fee));
+        }
+        return net;
+    }
+
+    // ── [U6-7] Append-only id indexes ─────────────────────────
+    //  One length slot per key (countPtr, key) plus one slot per
+    //  entry (listPtr, _pairSub(key, i)).  `key` is an address
+    //  (per-address indexes) or any other ≤192-bit owner id.
+
+    private _readIndexLength(countPtr: u16, key: u256): u64 {
+        return Blockchain.getStorageAt(countPtr, key, u256.Zero).lo1;
+    }
+
+    private _readIndexEntry(listPtr: u16, key: u256, i: u64): u64 {
+        return Blockchain.getStorageAt(listPtr, this._pairSub(key, i), u256.Zero).lo1;
+    }
+
+    private _appendIndex(countPtr: u16, listPtr: u16, key: u256, id: u64): void {
+        const n: u64 = this._readIndexLength(countPtr, key);
+        Blockchain.setStorageAt(listPtr, this._pairSub(key, n), u256.fromU64(id));
+        Blockchain.setStorageAt(countPtr, key, u256.fromU64(n + 1));
+    }
+
+    // ── Global counters ───────────────────────────────────────
+
+    private _readOrderCount(): u64 {
+        return Blockchain.getStorageAt(PTR_ORDER_COUNT, u256.Zero, u256.Zero).lo1;
+    }
+
+    private _nextOrderId(): u64 {
+        const current: u64 = this._readOrderCount();
+        if (current === u64.MAX_VALUE) {
+            throw new Revert('ServiceMarketplace: order ID overflow');
+        }
+        const next: u64 = current + 1;
+        Blockchain.setStorageAt(PTR_ORDER_COUNT, u256.Zero, u256.fromU64(next));
+        return next;
+    }
+
+    // ── Per-token registers [U6-5] ────────────────────────────
+    //  subPointer = token.toU256(); native mESC = u256.Zero.
+
+    private _readTotalLocked(token: Address): u256 {
+        return Blockchain.getStorageAt(PTR_TOTAL_LOCKED, token.toU256(), u256.Zero);
+    }
+
+    private _writeTotalLocked(token: Address, value: u256): void {
+        Blockchain.setStorageAt(PTR_TOTAL_LOCKED, token.toU256(), value);
+    }
+
+    // [U6-21] Native only — vote weight is always mESC.
+    private _readVotesLocked(): u256 {
+        return Blockchain.getStorageAt(PTR_VOTES_LOCKED, u256.Zero, u256.Zero);
+    }
+
+    private _writeVotesLocked(value: u256): void {
+        Blockchain.setStorageAt(PTR_VOTES_LOCKED, u256.Zero, value);
+    }
+
+    // [U6-24]
+    private _readFrozenAt(token: Address): u64 {
+        return Blockchain.getStorageAt(PTR_FROZEN_AT, token.toU256(), u256.Zero).lo1;
+    }
+
+    @inline
+    private _isFrozen(token: Address): bool {
+        return this._readFrozenAt(token) !== 0;
+    }
+
+    // ── [U6-3] Protocol fees / treasury ───────────────────────
+
+    private _readFeesAccrued(token: Address): u256 {
+        return Blockchain.getStorageAt(PTR_FEES_ACCRUED, token.toU256(), u256.Zero);
+    }
+
+    private _writeFeesAccrued(token: Address, value: u256): void {
+        Blockchain.setStorageAt(PTR_FEES_ACCRUED, token.toU256(), value);
+    }
+
+    private _readTreasury(): Address {
+        return Address.fromU256(
+            Blockchain.getStorageAt(PTR_TREASURY, u256.Zero, u256.Zero)
+        );
+    }
+
+    // ── [U6-10] Reputation counters per address ───────────────
+    //  subPointer = addr.toU256(); one pointer per counter.
+
+    private _readCounter(ptr: u16, addr: Address): u64 {
+        return Blockchain.getStorageAt(ptr, addr.toU256(), u256.Zero).lo1;
+    }
+
+    private _bumpCounter(ptr: u16, addr: Address): void {
+        const n: u64 = this._readCounter(ptr, addr);
+        // Saturate rather than revert: a counter must never block
+        // the state transition that updates it.
+        if (n === u64.MAX_VALUE) return;
+        Blockchain.setStorageAt(ptr, addr.toU256(), u256.fromU64(n + 1));
+    }
+
+    private _readVolume(addr: Address): u256 {
+        return Blockchain.getStorageAt(PTR_REP_VOLUME, addr.toU256(), u256.Zero);
+    }
+
+    private _creditVolume(addr: Address, amount: u256): void {
+        Blockchain.setStorageAt(PTR_REP_VOLUME, addr.toU256(), SafeMath.add(this._readVolume(addr), amount));
+    }
+
+    // ── [U6-20] Operator permissions ──────────────────────────
+    //  One slot per (owner, operator) pair; two addresses do not
+    //  fit _pairSub, so the pair is hashed.
+
+    private _operatorSub(owner: Address, operator: Address): u256 {
+        const w = new BytesWriter(SZ_ADDRESS + SZ_ADDRESS);
+        w.writeAddress(owner);
+        w.writeAddress(operator);
+        return u256.fromBytes(sha256(w.getBuffer()), true);
+    }
+
+    private _readOperatorMask(owner: Address, operator: Address): u32 {
+        return <u32>Blockchain.getStorageAt(
+            PTR_OPERATOR, this._operatorSub(owner, operator), u256.Zero
+        ).lo1;
+    }
+
+    // ── [U6-21] Governed parameters ───────────────────────────
+    //  An unset slot reads as the compile-time default.  Zero is
+    //  never a valid value, so it doubles as "unset".
+
+    private _defaultParam(param: u8): u256 {
+        if (param === PARAM_MIN_DEADLINE)    return u256.fromU64(MIN_DEADLINE_BLOCKS);
+        if (param === PARAM_ACCEPT_TIMEOUT)  return u256.fromU64(ACCEPT_TIMEOUT_BLOCKS);
+        if (param === PARAM_DISPUTE_TIMEOUT) return u256.fromU64(DISPUTE_TIMEOUT_BLOCKS);
+        if (param === PARAM_FAUCET_AMOUNT)   return FAUCET_AMOUNT;
+        return u256.fromU64(FAUCET_COOLDOWN);
+    }
+
+    private _readParam(param: u8): u256 {
+        const v = Blockchain.getStorageAt(PTR_PARAM, u256.fromU32(<u32>param), u256.Zero);
+        return u256.eq(v, u256.Zero) ? this._defaultParam(param) : v;
+    }
+
+    private _writeParam(param: u8, value: u256): void {
+        Blockchain.setStorageAt(PTR_PARAM, u256.fromU32(<u32>param), value);
+    }
+
+    /** Block-count parameters; _validParamValue keeps them in u64. */
+    @inline
+    private _paramU64(param: u8): u64 {
+        return this._readParam(param).lo1;
+    }
+
+    /** Snapshot of the block-count parameters for a new order. */
+    private _writeOrderParams(orderId: u64): void {
+        Blockchain.setStorageAt(PTR_ORDER_PARAMS, this._sub(orderId), new u256(
+            this._paramU64(PARAM_MIN_DEADLINE),
+            this._paramU64(PARAM_ACCEPT_TIMEOUT),
+            this._paramU64(PARAM_DISPUTE_TIMEOUT),
+            0
+        ));
+    }
+
+    /**
+     * The packed parameter snapshot of `orderId`.  [U6-23] Legacy
+     * records read as the original constants (see _upgradeOrder).
+     */
+    private _readOrderParams(orderId: u64): u256 {
+        const packed = Blockchain.getStorageAt(PTR_ORDER_PARAMS, this._sub(orderId), u256.Zero);
+        if (u256.eq(packed, u256.Zero) && this._isLegacyOrder(orderId)) {
+            return new u256(MIN_DEADLINE_BLOCKS, ACCEPT_TIMEOUT_BLOCKS, DISPUTE_TIMEOUT_BLOCKS, 0);
+        }
+        return packed;
+    }
+
+    /** A block-count parameter as it stood when `orderId` was created. */
+    private _orderParam(orderId: u64, param: u8): u64 {
+        const packed = this._readOrderParams(orderId);
+        if (param === PARAM_MIN_DEADLINE)   return packed.lo1;
+        if (param === PARAM_ACCEPT_TIMEOUT) return packed.lo2;
+        return packed.hi1;
+    }
+
+    // ── [U6-21] Proposals ─────────────────────────────────────
+    //  Keyed by proposalId through _sub(); vote locks by
+    //  _pairSub(voter, proposalId).
+
+    private _readProposalCount(): u64 {
+        return Blockchain.getStorageAt(PTR_PROP_COUNT, u256.Zero, u256.Zero).lo1;
+    }
+
+    private _nextProposalId(): u64 {
+        const current: u64 = this._readProposalCount();
+        if (current === u64.MAX_VALUE) {
+            throw new Revert('ServiceMarketplace: proposal ID overflow');
+        }
+        const next: u64 = current + 1;
+        Blockchain.setStorageAt(PTR_PROP_COUNT, u256.Zero, u256.fromU64(next));
+        return next;
+    }
+
+    private _readVoteLock(proposalId: u64, voter: Address): u256 {
+        return Blockchain.getStorageAt(
+            PTR_VOTE_LOCK, this._pairSub(voter.toU256(), proposalId), u256.Zero
+        );
+    }
+
+    private _writeVoteLock(proposalId: u64, voter: Address, amount: u256): void {
+        Blockchain.setStorageAt(PTR_VOTE_LOCK, this._pairSub(voter.toU256(), proposalId), amount);
+    }
+
+    // ── [U6-22] Faucet switch ─────────────────────────────────
+
+    private _isFaucetEnabled(): bool {
+        return !u256.eq(Blockchain.getStorageAt(PTR_FAUCET_ON, u256.Zero, u256.Zero), u256.Zero);
+    }
+
+    // ── [U5.1-1] Faucet last-claim block per address ──────────
+
+    /**
+     * Returns the block number of the given address's last successful
+     * faucet claim.  Returns 0 for addresses that have never claimed.
+     * subPointer = addr.toU256() scopes the slot uniquely per address.
+     */
+    private _readLastClaimBlock(addr: Address): u64 {
+        return Blockchain.getStorageAt(PTR_LAST_CLAIM, addr.toU256(), u256.Zero).lo1;
+    }
+
+    private _writeLastClaimBlock(addr: Address, blockNum: u64): void {
+        Blockchain.setStorageAt(PTR_LAST_CLAIM, addr.toU256(), u256.fromU64(blockNum));
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  VALIDATION HELPERS
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * [V4-U1] Explicit order existence guard.
+     * Called at the top of every mutating and view entry point.
+     * Does NOT rely on STATE_NONE as a proxy for "not found."
+     */
+    private _requireOrderExists(orderId: u64): void {
+        if (orderId === 0) {
+            throw new Revert('ServiceMarketplace: orderId 0 is invalid');
+        }
+        if (orderId > this._readOrderCount()) {
+            throw new Revert('ServiceMarketplace: order does not exist');
+        }
+        // [U6-17] Listings share the id space but have no order record.
+        if (this._isListing(orderId)) {
+            throw new Revert('ServiceMarketplace: id is a listing, not an order');
+        }
+    }
+
+    /** [U6-13] Request counterpart of _requireOrderExists. */
+    private _requireRequestExists(requestId: u64): void {
+        if (requestId === 0) {
+            throw new Revert('ServiceMarketplace: requestId 0 is invalid');
+        }
+        if (requestId > this._readRequestCount()) {
+            throw new Revert('ServiceMarketplace: request does not exist');
+        }
+    }
+
+    /** [U6-18] Subscription counterpart of _requireOrderExists. */
+    private _requireSubExists(subId: u64): void {
+        if (subId === 0) {
+            throw new Revert('ServiceMarketplace: subscriptionId 0 is invalid');
+        }
+        if (subId > this._readSubCount()) {
+            throw new Revert('ServiceMarketplace: subscription does not exist');
+        }
+    }
+
+    /** [U6-21] Proposal counterpart of _requireOrderExists. */
+    private _requireProposalExists(proposalId: u64): void {
+        if (proposalId === 0) {
+            throw new Revert('ServiceMarketplace: proposalId 0 is invalid');
+        }
+        if (proposalId > this._readProposalCount()) {
+            throw new Revert('ServiceMarketplace: proposal does not exist');
+        }
+    }
+
+    /** [U6-17] Listing counterpart of _requireOrderExists. */
+    private _requireListingExists(listingId: u64): void {
+        if (listingId === 0) {
+            throw new Revert('ServiceMarketplace: listingId 0 is invalid');
+        }
+        if (!this._isListing(listingId)) {
+            throw new Revert('ServiceMarketplace: listing does not exist');
+        }
+    }
+
+    /**
+     * [V4-U4] Formal state transition guard.
+     * The sole path for all state mutations in entry functions.
+     * Asserts current state == from before writing to.
+     * [U6-23] Migrates a legacy record first, while its backfill
+     * rules still see the old state.
+     */
+    private _transition(orderId: u64, from: u8, to: u8): void {
+        this._upgradeOrder(orderId);
+        const current = this._readState(orderId);
+        if (current !== from) {
+            throw new Revert(
+                'ServiceMarketplace: invalid transition — current ' +
+                current.toString() +
+                ', expected ' + from.toString() +
+                ', target '   + to.toString()
+            );
+        }
+        this._writeState(orderId, to);
+    }
+
+    /**
+     * All authentication uses Blockchain.sender exclusively.
+     * Blockchain.tx.sender does not exist in OPNet runtime.
+     * [U6-20] With a PERM_* bit, an operator `expected` granted
+     * that bit is accepted as well.
+     */
+    private _requireCaller(expected: Address, perm: u32 = PERM_NONE): void {
+        if (!this._actsFor(Blockchain.sender, expected, perm)) {
+            throw new Revert('ServiceMarketplace: caller not authorised');
+        }
+    }
+
+    /**
+     * [U6-20] True if `caller` is `principal`, or an operator that
+     * `principal` granted every bit of `perm` (PERM_NONE: never).
+     */
+    private _actsFor(caller: Address, principal: Address, perm: u32): bool {
+        if (caller.equals(principal)) return true;
+        if (perm === PERM_NONE || this._isZeroAddress(principal)) return false;
+        return (this._readOperatorMask(principal, caller) & perm) === perm;
+    }
+
+    /**
+     * [U5-4] Explicit zero-address check.
+     * Called on seller (createOrder), buyer (acceptOrder), and
+     * all release recipients before funds are moved.
+     */
+    private _requireNonZeroAddress(addr: Address): void {
+        if (u256.eq(addr.toU256(), u256.Zero)) {
+            throw new Revert('ServiceMarketplace: zero address not allowed');
+        }
+    }
+
+    /**
+     * Blockchain.blockNumber returns u256.
+     * Always .toU64() before u64 comparisons.
+     */
+    @inline
+    private _currentBlock(): u64 {
+        return Blockchain.blockNumber.toU64();
+    }
+
+    private _requireDeadlineNotExpired(orderId: u64): void {
+        if (this._currentBlock() > this._readDeadline(orderId)) {
+            throw new Revert('ServiceMarketplace: deadline expired');
+        }
+    }
+
+    private _isDeadlineExpired(orderId: u64): bool {
+        return this._currentBlock() > this._readDeadline(orderId);
+    }
+
+    /**
+     * [U6-2] The deadline the seller is currently working against:
+     * the next unreleased tranche for milestone orders, the order
+     * deadline otherwise.  Gates the buyer's FUNDED cancellation.
+     */
+    private _nextDueDeadline(orderId: u64): u64 {
+        const count: u8 = this._readMilestoneCount(orderId);
+        if (count === 0) return this._readDeadline(orderId);
+
+        const released: u8 = this._readMilestonesReleased(orderId);
+        if (released >= count) return this._readDeadline(orderId);
+
+        return this._readMilestoneDeadline(orderId, released);
+    }
+
+    @inline
+    private _isZeroAddress(addr: Address): bool {
+        return u256.eq(addr.toU256(), u256.Zero);
+    }
+
+    /**
+     * [U6-1] amount × bps / BPS_DENOMINATOR, rounded down.
+     * Rounding dust stays with the party the remainder is paid to.
+     */
+    private _bpsOf(amount: u256, bps: u16): u256 {
+        if (bps === 0) return u256.Zero;
+        return SafeMath.div(
+            SafeMath.mul(amount, u256.fromU32(<u32>bps)),
+            u256.fromU64(BPS_DENOMINATOR)
+        );
+    }
+
+    /**
+     * [U6-9] First block at which the buyer may force-refund a
+     * DISPUTED order; also the close of its evidence window.
+     * [U6-23] Records disputed before PTR_DISPUTED_AT existed are
+     * backfilled with their deadline, the original anchor.
+     */
+    private _forceRefundAt(orderId: u64): u64 {
+        const anchor: u64 = this._readDisputedAt(orderId);
+
+        // [U6-21] Timeout in force when the order was created.
+        const timeout: u64 = this._orderParam(orderId, PARAM_DISPUTE_TIMEOUT);
+        return (anchor > u64.MAX_VALUE - timeout)
+            ? u64.MAX_VALUE
+            : anchor + timeout;
+    }
+
+    /**
+     * [U6-21] Last block at which the buyer of an ACCEPTED order
+     * may still fund it.
+     */
+    private _fundDeadline(orderId: u64): u64 {
+        const acceptedAt: u64 = this._readAcceptedAt(orderId);
+        const timeout: u64    = this._orderParam(orderId, PARAM_ACCEPT_TIMEOUT);
+        return (acceptedAt > u64.MAX_VALUE - timeout)
+            ? u64.MAX_VALUE
+            : acceptedAt + timeout;
+    }
+
+    /**
+     * [U6-14] First block at which a delivered order may be
+     * auto-released; u64.MAX_VALUE if delivery was never marked.
+     */
+    private _reviewEndsAt(orderId: u64): u64 {
+        const deliveredAt: u64 = this._readDeliveredAt(orderId);
+        if (deliveredAt === 0 || deliveredAt > u64.MAX_VALUE - REVIEW_WINDOW_BLOCKS) {
+            return u64.MAX_VALUE;
+        }
+        return deliveredAt + REVIEW_WINDOW_BLOCKS;
+    }
+
+    /**
+     * Converts a relative block count into an absolute block height.
+     * Reverts if the sum would overflow u64.
+     */
+    private _absoluteDeadline(dBlocks: u64): u64 {
+        const block: u64 = this._currentBlock();
+        if (block > u64.MAX_VALUE - dBlocks) {
+            throw new Revert('ServiceMarketplace: deadline overflows u64');
+        }
+        return block + dBlocks;
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  ORDER INITIALISATION
+    //
+    //  Every create path (createOrder, createMilestoneOrder …)
+    //  parses its own pricing arguments, then reads the shared
+    //  trailing OrderOptions block and hands both to _initOrder.
+    //  _initOrder is the only place that allocates an order id
+    //  and writes a fresh order record.
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * Reads the OrderOptions block that trails every create
+     * selector, in declaration order:
+     *   addr arbiter        [U6-1]
+     *   u16  arbiterFeeBps  [U6-1]
+     *   addr paymentToken   [U6-5]
+     *   b32  termsHash      [U6-6]  read as u256 (same 32 bytes, big-endian)
+     *   u256 bond           [U6-11]
+     *   addr allowedBuyers[] [U6-12] u16 length, then the addresses
+     */
+    private _readOrderOptions(calldata: Calldata): OrderOptions {
+        const opts = new OrderOptions();
+        opts.arbiter       = calldata.readAddress();
+        opts.arbiterFeeBps = calldata.readU16();
+        opts.paymentToken  = calldata.readAddress();
+        opts.termsHash     = calldata.readU256();
+        opts.bond          = calldata.readU256();
+
+        // [U6-12] Bounded before reading so a bogus length cannot
+        // drive a long loop.
+        const allowCount: u16 = calldata.readU16();
+        if (allowCount > <u16>MAX_ALLOWED_BUYERS) {
+            throw new Revert(
+                'ServiceMarketplace: at most ' + MAX_ALLOWED_BUYERS.toString() +
+                ' designated buyers'
+            );
+        }
+        for (let i: u16 = 0; i < allowCount; i++) {
+            opts.allowedBuyers.push(calldata.readAddress());
+        }
+        return opts;
+    }
+
+    private _validateOrderOptions(seller: Address, opts: OrderOptions): void {
+        const reason: string = this._orderOptionsRejection(seller, opts);
+        if (reason.length > 0) {
+            throw new Revert(reason);
+        }
+    }
+
+    /**
+     * [U6-8] OrderOptions rules, without side effects: the revert
+     * reason, or '' if `opts` are valid for `seller`.
+     */
+    private _orderOptionsRejection(seller: Address, opts: OrderOptions): string {
+        // [U6-1]
+        if (this._isZeroAddress(opts.arbiter)) {
+            if (opts.arbiterFeeBps !== 0) {
+                return 'ServiceMarketplace: arbiter fee set without an arbiter';
+            }
+        } else if (opts.arbiter.equals(seller)) {
+            return 'ServiceMarketplace: seller cannot arbitrate own order';
+        }
+        if (opts.arbiterFeeBps > MAX_ARBITER_FEE_BPS) {
+            return 'ServiceMarketplace: arbiter fee above maximum (' +
+                MAX_ARBITER_FEE_BPS.toString() + ' bps)';
+        }
+        // [U6-5] mESC is addressed as the zero token, never by its
+        // contract address — keeps its registers on one key.
+        if (opts.paymentToken.equals(Blockchain.contractAddress)) {
+            return 'ServiceMarketplace: use the zero address for native mESC';
+        }
+        // [U6-12] Every designated buyer must be able to accept.
+        for (let i: i32 = 0; i < opts.allowedBuyers.length; i++) {
+            const b: Address = opts.allowedBuyers[i];
+            if (this._isZeroAddress(b)) {
+                return 'ServiceMarketplace: designated buyer is the zero address';
+            }
+            if (b.equals(seller) || b.equals(opts.arbiter)) {
+                return 'ServiceMarketplace: designated buyer cannot be seller or arbiter';
+            }
+        }
+        return '';
+    }
+
+    /**
+     * Allocates the next order id and writes a complete CREATED
+     * record.  Callers have already validated price and deadline.
+     * [U6-21] Snapshots the governed block parameters.
+     * [U6-11] Locks the seller bond, if any, after the record is
+     * written (CEI); an external token must be approved first.
+     *
+     * Emits: OrderCreated
+     */
+    private _initOrder(
+        seller: Address,
+        price: u256,
+        deadlineAbs: u64,
+        opts: OrderOptions,
+    ): u64 {
+        this._validateOrderOptions(seller, opts);
+
+        const orderId: u64 = this._nextOrderId();
+
+        // Initialise all storage fields.  _writeState is used directly
+        // here because this is initialisation from scratch, not a
+        // transition from a prior persisted state.
+        this._writeSeller(orderId, seller);
+        this._writeBuyer(orderId, Address.fromU256(u256.Zero));
+        this._writePrice(orderId, price);
+        this._writeLocked(orderId, u256.Zero);
+        this._writeDeadline(orderId, deadlineAbs);
+        this._writeAcceptedAt(orderId, 0);                      // [U5-1] zero = never accepted
+        this._writeArbiter(orderId, opts.arbiter);              // [U6-1]
+        this._writeArbiterFeeBps(orderId, opts.arbiterFeeBps);  // [U6-1]
+        this._writePaymentToken(orderId, opts.paymentToken);    // [U6-5]
+        this._writeTermsHash(orderId, opts.termsHash);          // [U6-6]
+        this._writeBond(orderId, opts.bond);                    // [U6-11]
+        this._writeAllowedBuyers(orderId, opts.allowedBuyers);  // [U6-12]
+        this._writeOrderParams(orderId);                        // [U6-21]
+        this._writeOrderSchema(orderId, SCHEMA_CURRENT);        // [U6-23]
+        this._writeState(orderId, STATE_CREATED);
+
+        // [U6-7]
+        this._appendIndex(PTR_SELLER_IDX_N, PTR_SELLER_IDX, seller.toU256(), orderId);
+
+        // [U6-11] Bond enters escrow in the order's own token.
+        if (!u256.eq(opts.bond, u256.Zero)) {
+            this._escrowLock(opts.paymentToken, seller, opts.bond);
+        }
+
+        this.emitEvent(new OrderCreatedEvent(
+            orderId, seller, price, deadlineAbs,
+            opts.arbiter, opts.arbiterFeeBps, opts.paymentToken, opts.termsHash,
+            opts.bond
+        ));
+
+        return orderId;
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  OP-20 BALANCE ESCROW  +  PER-TOKEN ACCOUNTING
+    //
+    //  [U6-5] Every order names a payment token:
+    //    • zero address → this contract's own mESC.  balanceOfMap
+    //      (AddressMemoryMap<u256>) is inherited from DeployableOP_20
+    //      and IS the ledger; escrow = in-frame mutations of it.
+    //    • any other    → an external OP-20.  Tokens enter through
+    //      transferFrom(payer → this) and leave through transfer().
+    //
+    //  [V4-U3] Every lock/release also updates PTR_TOTAL_LOCKED.
+    //  [U6-3]  Protocol fees leave totalLocked for PTR_FEES_ACCRUED
+    //          without moving tokens (see _accrueFee).
+    //  [U6-5]  Both registers are keyed by token.toU256(), so the
+    //          native token keeps its original subPtr = u256.Zero.
+    //
+    //  Strengthened invariant, per token (enforced in _escrowRelease):
+    //    escrowBalance(token) >= totalLocked(token) + feesAccrued(token)
+    //
+    //  [U6-21] escrowBalance is the contract balance less the mESC
+    //  held as vote weight (PTR_VOTES_LOCKED), which is reserved
+    //  first and never counted as escrow.
+    //
+    //  This invariant fires if any path drains contractBalance
+    //  without a matching totalLocked decrement — e.g., a direct
+    //  OP-20 transfer() call targeting the contract address.
+    //
+    //  External calls happen last in every path (after all state
+    //  writes) and run under the [U5-3] in-frame lock, so a token
+    //  that calls back into the marketplace reverts.
+    // ─────────────────────────────────────────────────────────
+
+    @inline
+    private _isNativeToken(token: Address): bool {
+        return this._isZeroAddress(token);
+    }
+
+    /** [U6-24] Reverts once the breaker has tripped for `token`. */
+    private _requireNotFrozen(token: Address): void {
+        if (this._isFrozen(token)) {
+            throw new Revert('ServiceMarketplace: escrow is frozen for this token');
+        }
+    }
+
+    /**
+     * [U6-24] Latches the breaker for `token` if
+     *   escrowBalance < totalLocked + feesAccrued.
+     * Never reverts.  Returns true only on the call that trips it.
+     *
+     * Emits: EscrowFrozen (on trip)
+     */
+    private _tripIfBroken(token: Address): bool {
+        if (this._isFrozen(token)) return false;
+
+        const balance: u256  = this._escrowBalanceOf(token);
+        const required: u256 = SafeMath.add(this._readTotalLocked(token), this._readFeesAccrued(token));
+        if (!u256.lt(balance, required)) return false;
+
+        const block: u64 = this._currentBlock();
+        Blockchain.setStorageAt(PTR_FROZEN_AT, token.toU256(), u256.fromU64(block));
+        this.emitEvent(new EscrowFrozenEvent(token, balance, required, block));
+        return true;
+    }
+
+    /**
+     * [U6-24] Breaker gate for entry points that take new escrow in
+     * `token`.  Reverts if the token is already frozen.  Returns
+     * true if this call froze it; the entry point must then return
+     * _trippedReply instead of reverting, or the latch would be
+     * rolled back with the rest of the frame.
+     */
+    private _breakerGate(token: Address): bool {
+        this._requireNotFrozen(token);
+        return this._tripIfBroken(token);
+    }
+
+    /** [U6-24] Reply of a gated entry point that tripped: id 0 / false. */
+    private _trippedReply(size: i32): BytesWriter {
+        const out = new BytesWriter(size);
+        if (size === SZ_BOOL) {
+            out.writeBoolean(false);
+        } else {
+            out.writeU64(0);
+        }
+        return out;
+    }
+
+    /**
+     * [U6-24] `claim` scaled by balance / required, the fraction of
+     * every claim still backed.  Each payout removes `claim` from
+     * required and the share from balance, so the fraction holds
+     * for whoever withdraws next.
+     */
+    private _proRataShare(claim: u256, balance: u256, required: u256): u256 {
+        if (u256.eq(required, u256.Zero) || !u256.lt(balance, required)) return claim;
+        return SafeMath.div(SafeMath.mul(claim, balance), required);
+    }
+
+    /**
+     * [U6-5] This contract's balance of `token`.
+     * Native: balanceOfMap lookup.  External: balanceOf() call.
+     */
+    private _contractBalanceOf(token: Address): u256 {
+        const contractAddr = Blockchain.contractAddress;
+        if (this._isNativeToken(token)) {
+            return this.balanceOfMap.get(contractAddr);
+        }
+
+        const cd = new BytesWriter(SZ_SELECTOR + SZ_ADDRESS);
+        cd.writeSelector(encodeSelector('balanceOf(address)'));
+        cd.writeAddress(contractAddr);
+
+        const response: BytesReader = Blockchain.call(token, cd);
+        return response.readU256();
+    }
+
+    /**
+     * [U6-21] The part of this contract's `token` balance that backs
+     * escrow and fees: for native mESC, less the vote weight held.
+     */
+    private _escrowBalanceOf(token: Address): u256 {
+        const balance: u256 = this._contractBalanceOf(token);
+        if (!this._isNativeToken(token)) return balance;
+
+        const votes: u256 = this._readVotesLocked();
+        return u256.lt(balance, votes) ? u256.Zero : SafeMath.sub(balance, votes);
+    }
+
+    /**
+     * [U6-5] Move `amount` of `token` from the contract to
+     * `recipient`.  Raw movement only — no register bookkeeping,
+     * no invariant checks; callers provide both.
+     */
+    private _transferOut(token: Address, recipient: Address, amount: u256): void {
+        if (this._isNativeToken(token)) {
+            const contractAddr       = Blockchain.contractAddress;
+            const contractBal: u256  = this.balanceOfMap.get(contractAddr);
+            const recipientBal: u256 = this.balanceOfMap.get(recipient);
+
+            this.balanceOfMap.set(contractAddr, SafeMath.sub(contractBal,  amount));
+            this.balanceOfMap.set(recipient,    SafeMath.add(recipientBal, amount));
+            return;
+        }
+
+        const cd = new BytesWriter(SZ_SELECTOR + SZ_ADDRESS + SZ_U256);
+        cd.writeSelector(encodeSelector('transfer(address,uint256)'));
+        cd.writeAddress(recipient);
+        cd.writeU256(amount);
+
+        const response: BytesReader = Blockchain.call(token, cd);
+        if (!response.readBoolean()) {
+            throw new Revert('ServiceMarketplace: payment token transfer failed');
+        }
+    }
+
+    /**
+     * Lock `amount` of `token` from payer into contract escrow.
+     *
+     *   payer balance         -= amount
+     *   contract balance      += amount
+     *   totalLocked[token]    += amount
+     *
+     * Native: reverts if payer balance < amount.
+     * [U6-24] Reverts if the breaker has tripped for `token`.
+     * External [U6-5]: pulls via transferFrom (payer must have
+     * approved this contract) and verifies the contract balance grew
+     * by exactly `amount`, which rejects fee-on-transfer tokens.
+     */
+    private _escrowLock(token: Address, payer: Address, amount: u256): void {
+        this._requireNotFrozen(token);  // [U6-24]
+
+        const newTotal: u256 = SafeMath.add(this._readTotalLocked(token), amount);
+
+        if (this._isNativeToken(token)) {
+            const payerBal: u256    = this.balanceOfMap.get(payer);
+            const contractAddr       = Blockchain.contractAddress;
+            const contractBal: u256 = this.balanceOfMap.get(contractAddr);
+
+            if (u256.lt(payerBal, amount)) {
+                throw new Revert('ServiceMarketplace: insufficient OP-20 balance to fund escrow');
+            }
+
+            const newPayer:    u256 = SafeMath.sub(payerBal,    amount);
+            const newContract: u256 = SafeMath.add(contractBal, amount);
+
+            this.balanceOfMap.set(payer,        newPayer);
+            this.balanceOfMap.set(contractAddr, newContract);
+            this._writeTotalLocked(token, newTotal);
+            return;
+        }
+
+        // [U6-5] External token.
+        const before: u256 = this._contractBalanceOf(token);
+
+        this._writeTotalLocked(token, newTotal);
+
+        const cd = new BytesWriter(SZ_SELECTOR + SZ_ADDRESS + SZ_ADDRESS + SZ_U256);
+        cd.writeSelector(encodeSelector('transferFrom(address,address,uint256)'));
+        cd.writeAddress(payer);
+        cd.writeAddress(Blockchain.contractAddress);
+        cd.writeU256(amount);
+
+        const response: BytesReader = Blockchain.call(token, cd);
+        if (!response.readBoolean()) {
+            throw new Revert('ServiceMarketplace: payment token transferFrom failed');
+        }
+
+        const after: u256 = this._contractBalanceOf(token);
+        if (u256.lt(after, before) || !u256.eq(SafeMath.sub(after, before), amount)) {
+            throw new Revert('ServiceMarketplace: payment token delivered an unexpected amount');
+        }
+    }
+
+    /**
+     * Release `amount` of `token` from contract escrow to recipient.
+     *
+     *   contract balance      -= paid
+     *   recipient balance     += paid
+     *   totalLocked[token]    -= amount
+     *
+     * paid == amount while the escrow is fully backed.
+     *
+     * [U5-4] Validates recipient is non-zero before any transfer.
+     * [U6-24] Never reverts on a shortfall: the breach latches the
+     * breaker, and a frozen token pays `amount` scaled by the same
+     * fraction emergencyWithdraw uses (_proRataShare).  Every
+     * release path — payouts, refunds, resolutions, subscription
+     * claims — therefore stays open once frozen.
+     *
+     * Guards (per token):
+     *   (1) escrowBalance >= totalLocked + feesAccrued  (global invariant;
+     *       on breach the token freezes)
+     *   (2) totalLocked   >= amount          (underflow guard on register)
+     *
+     * Emits: EscrowFrozen (on trip), FrozenPayout (only if paid < amount)
+     */
+    private _escrowRelease(token: Address, recipient: Address, amount: u256): void {
+        if (u256.eq(amount, u256.Zero)) return;
+
+        // [U5-4] Never release to zero address.
+        this._requireNonZeroAddress(recipient);
+
+        // Guard (1): primary invariant.  [U6-3] Accrued fees are
+        // owed to the treasury and must be backed as well.
+        this._tripIfBroken(token);  // [U6-24]
+
+        const totalLocked: u256 = this._readTotalLocked(token);
+
+        // Guard (2): register underflow.
+        if (u256.lt(totalLocked, amount)) {
+            throw new Revert(
+                'ServiceMarketplace: CRITICAL — release amount exceeds totalLocked'
+            );
+        }
+
+        // [U6-24] Backed share only, once frozen.
+        let paid: u256 = amount;
+        if (this._isFrozen(token)) {
+            paid = this._proRataShare(
+                amount,
+                this._escrowBalanceOf(token),
+                SafeMath.add(totalLocked, this._readFeesAccrued(token))
+            );
+        }
+
+        // All writes after all checks (Checks-Effects-Interactions).
+        this._writeTotalLocked(token, SafeMath.sub(totalLocked, amount));
+        this._transferOut(token, recipient, paid);
+
+        if (u256.lt(paid, amount)) {
+            this.emitEvent(new FrozenPayoutEvent(token, recipient, amount, paid));
+        }
+    }
+
+    /**
+     * [U6-3] Reclassify `fee` from escrow to treasury-owed fees.
+     *
+     *   totalLocked[token] -= fee
+     *   feesAccrued[token] += fee
+     *
+     * No balance changes: the tokens stay in the contract until
+     * withdrawFees(token) pays the treasury.
+     */
+    private _accrueFee(token: Address, fee: u256): void {
+        if (u256.eq(fee, u256.Zero)) return;
+
+        const totalLocked: u256 = this._readTotalLocked(token);
+        if (u256.lt(totalLocked, fee)) {
+            throw new Revert('ServiceMarketplace: CRITICAL — fee exceeds totalLocked');
+        }
+        this._writeTotalLocked(token, SafeMath.sub(totalLocked, fee));
+        this._writeFeesAccrued(token, SafeMath.add(this._readFeesAccrued(token), fee));
+    }
+
+    /**
+     * [U6-3] Pay `gross` of an order's escrow to its seller, less
+     * PROTOCOL_FEE_BPS.  Every seller payout of an order goes
+     * through here ([U6-18] subscription payouts go through
+     * _payoutSubSeller).
+     * Returns the net amount the seller received.
+     *
+     * [U6-10] Credits `gross` to the reputation volume of seller
+     * and buyer when the order is priced in native mESC; amounts
+     * in other tokens are not comparable and are not summed.
+     *
+     * Emits: ProtocolFeeAccrued (only if fee > 0)
+     */
+    private _payoutSeller(orderId: u64, seller: Address, gross: u256): u256 {
+        const token: Address = this._readPaymentToken(orderId);  // [U6-5]
+        const fee: u256      = this._bpsOf(gross, PROTOCOL_FEE_BPS);
+        const net: u256      = SafeMath.sub(gross, fee);
+
+        this._accrueFee(token, fee);
+        this._escrowRelease(token, seller, net);
+
+        if (!u256.eq(fee, u256.Zero)) {
+            this.emitEvent(new ProtocolFeeAccruedEvent(orderId, 0, token, fee));
+        }
+
+        // [U6-10]
+        if (this._isNativeToken(token)) {
+            this._creditVolume(seller, gross);
+            this._creditVolume(this._readBuyer(orderId), gross);
+        }
+        return net;
+    }
+
+    /**
+     * CREATED → ACCEPTED effects: records the buyer and acceptedAt
+     * and indexes the order under the buyer.  Callers have checked
+     * the buyer's eligibility.  [U6-13] Shared by acceptOrder and
+     * selectBid.
+     *
+     * Emits: OrderAccepted
+     */
+    private _registerBuyer(orderId: u64, buyer: Address): void {
+        const block: u64 = this._currentBlock();
+
+        // [V4-U4] CREATED → ACCEPTED.
+        this._transition(orderId, STATE_CREATED, STATE_ACCEPTED);
+
+        // Persist buyer address and acceptedAt timestamp.
+        this._writeBuyer(orderId, buyer);
+        this._writeAcceptedAt(orderId, block); // [U5-1]
+
+        // [U6-7]
+        this._appendIndex(PTR_BUYER_IDX_N, PTR_BUYER_IDX, buyer.toU256(), orderId);
+
+        this.emitEvent(new OrderAcceptedEvent(orderId, buyer, block, Blockchain.sender));
+    }
+
+    /**
+     * ACCEPTED → FUNDED effects: locks the order price from the
+     * buyer.  Callers have checked the deadline and accept timeout.
+     * [U6-13] Shared by fundOrder and selectBid.
+     *
+     * Emits: OrderFunded
+     */
+    private _lockPayment(orderId: u64, buyer: Address): void {
+        const price = this._readPrice(orderId);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        // [V4-U4] ACCEPTED → FUNDED.
+        this._transition(orderId, STATE_ACCEPTED, STATE_FUNDED);
+        this._writeLocked(orderId, price);
+
+        // [V4-U3] Lock — updates balanceOfMap AND totalLocked.
+        this._escrowLock(this._readPaymentToken(orderId), buyer, price);
+
+        this.emitEvent(new OrderFundedEvent(orderId, buyer, price, Blockchain.sender));
+    }
+
+    /**
+     * [U6-17] If `orderId` still holds a unit of a listing that is
+     * open and was never marked delivered, makes the unit
+     * purchasable again.  The hold is released either way, so a
+     * unit is returned at most once.  Orders that did not come
+     * from a listing hold nothing.
+     */
+    private _restoreListingUnit(orderId: u64): void {
+        if (!this._holdsListingUnit(orderId)) return;
+
+        const listingId: u64 = this._readOrderListing(orderId);
+        this._writeOrderListing(orderId, listingId, false);
+
+        if (!this._isListingOpen(listingId)) return;
+        if (this._readDeliveredAt(orderId) !== 0) return;  // [U6-14] service rendered
+
+        const left: u32 = this._readUnitsLeft(listingId);
+        if (left < <u32>this._readIdWord(PTR_LST_UNITS, listingId).lo1) {
+            this._writeUnitsLeft(listingId, left + 1);
+        }
+    }
+
+    /**
+     * [U6-17] Spends one unit of `listingId` on a purchase slot for
+     * `buyer`: an ordinary order created through _initOrder,
+     * accepted for the buyer (_registerBuyer) and, with `fund`,
+     * funded (_lockPayment).  The purchase then follows the normal
+     * order rules.  Callers have checked the buyer and the terms.
+     *
+     * Returns the purchase orderId, or 0 if `fund` tripped the
+     * circuit breaker [U6-24]; nothing is written in that case and
+     * the caller answers with _trippedReply.
+     *
+     * Emits: OrderCreated, OrderAccepted, [OrderFunded], ListingPurchased
+     */
+    private _purchaseUnit(listingId: u64, buyer: Address, fund: bool): u64 {
+        this._requireListingExists(listingId);
+
+        if (!this._isListingOpen(listingId)) {
+            throw new Revert('ServiceMarketplace: listing is closed');
+        }
+        const left: u32 = this._readUnitsLeft(listingId);
+        if (left === 0) {
+            throw new Revert('ServiceMarketplace: listing is sold out');
+        }
+
+        const opts: OrderOptions = this._listingOptions(listingId);
+        const seller: Address    = this._readIdAddress(PTR_LST_SELLER, listingId);
+
+        if (buyer.equals(seller) || buyer.equals(opts.arbiter)) {
+            throw new Revert('ServiceMarketplace: seller or arbiter cannot buy from the listing');
+        }
+
+        // [U6-24]
+        if (fund && this._breakerGate(opts.paymentToken)) {
+            return 0;
+        }
+
+        this._writeUnitsLeft(listingId, left - 1);
+
+        const orderId: u64 = this._initOrder(
+            seller,
+            this._readIdWord(PTR_LST_PRICE, listingId),
+            this._absoluteDeadline(this._readIdWord(PTR_LST_DBLOCKS, listingId).lo1),
+            opts
+        );
+        this._writeOrderListing(orderId, listingId, true);
+        this._appendIndex(PTR_LST_PURCH_N, PTR_LST_PURCH, this._sub(listingId), orderId);
+
+        this._registerBuyer(orderId, buyer);
+        if (fund) {
+            this._lockPayment(orderId, buyer);
+        }
+
+        this.emitEvent(new ListingPurchasedEvent(listingId, orderId, buyer, left - 1));
+        return orderId;
+    }
+
+    /**
+     * [U6-11] Releases an order's seller bond to `recipient`.
+     * Called once, from the transition into a terminal state;
+     * the stored amount is kept for getOrder.  Fee-free.
+     *
+     * Emits: BondReleased (only if bond > 0)
+     */
+    private _releaseBond(orderId: u64, recipient: Address): void {
+        const bond: u256 = this._readBond(orderId);
+        if (u256.eq(bond, u256.Zero)) return;
+
+        this._escrowRelease(this._readPaymentToken(orderId), recipient, bond);
+        this.emitEvent(new BondReleasedEvent(orderId, recipient, bond));
+    }
+
+    /**
+     * FUNDED → COMPLETED effects: pays everything still locked to
+     * the seller.  [U6-14] Shared by confirmCompletion and
+     * claimAutoRelease; callers have run the checks.
+     *
+     * OrderCompleted reports the order's price — for a milestone
+     * order Σ amounts, not just the tranches paid here — as
+     * releaseMilestone does on the final tranche.
+     *
+     * Emits: OrderCompleted (+ ProtocolFeeAccrued, BondReleased)
+     */
+    private _completeFunded(orderId: u64, seller: Address, buyer: Address, locked: u256): void {
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        // [V4-U4] FUNDED → COMPLETED committed before release.
+        this._transition(orderId, STATE_FUNDED, STATE_COMPLETED);
+        this._writeLocked(orderId, u256.Zero);
+
+        // [U6-2] Completing a milestone order releases every
+        // remaining tranche at once.
+        const msCount: u8 = this._readMilestoneCount(orderId);
+        if (msCount !== 0) {
+            this._writeMilestonesReleased(orderId, msCount);
+        }
+
+        // [V4-U3] [U6-3]
+        this._payoutSeller(orderId, seller, locked);
+        this._releaseBond(orderId, seller);  // [U6-11]
+
+        // [U6-10]
+        this._recordCompletion(seller, buyer);
+
+        this.emitEvent(new OrderCompletedEvent(orderId, seller, this._readPrice(orderId), Blockchain.sender));
+    }
+
+    /**
+     * [U6-10] Reputation bookkeeping for an order that just reached
+     * COMPLETED, by confirmation or by its final milestone.
+     */
+    private _recordCompletion(seller: Address, buyer: Address): void {
+        this._bumpCounter(PTR_REP_SOLD, seller);
+        this._bumpCounter(PTR_REP_BOUGHT, buyer);
+    }
+
+    // ─────────────────────────────────────────────────────────
+    //  ENTRY POINTS
+    // ─────────────────────────────────────────────────────────
+
+    /**
+     * createOrder(price: u256, deadlineBlocks: u64,
+     *             …OrderOptions) → orderId: u64
+     *
+     * Seller creates a new service listing.
+     * `deadlineBlocks` is relative; stored as absolute block height.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit seller non-zero check.
+     * [U6-1] Optional arbiter.  The zero address means "no arbiter":
+     *        a dispute can then only end through the buyer's
+     *        force-refund after DISPUTE_TIMEOUT_BLOCKS.
+     *
+     * Requirements:
+     *   • caller is non-zero
+     *   • price > 0
+     *   • deadlineBlocks >= MIN_DEADLINE_BLOCKS
+     *   • arbiter ≠ seller
+     *   • arbiterFeeBps <= MAX_ARBITER_FEE_BPS, and 0 if no arbiter
+     *   • [U6-11] seller holds (or has approved) `bond`
+     *   • [U6-12] ≤ MAX_ALLOWED_BUYERS designated buyers, none of
+     *     them zero, the seller or the arbiter
+     *
+     * State after: CREATED
+     * Emits:       OrderCreated
+     */
+    private _createOrder(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const price: u256         = calldata.readU256();
+        const dBlocks: u64        = calldata.readU64();
+        const opts: OrderOptions  = this._readOrderOptions(calldata);  // [U6-1]
+        const seller: Address     = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(seller);
+
+        // [U6-8] Shared with multicall's per-item check.
+        const reason: string = this._createRejection(price, dBlocks);
+        if (reason.length > 0) {
+            this._unlock();
+            throw new Revert(reason);
+        }
+
+        const deadlineAbs: u64 = this._absoluteDeadline(dBlocks);
+
+        // [U6-24]
+        if (this._breakerGate(opts.paymentToken)) {
+            this._unlock();
+            return this._trippedReply(SZ_U64);
+        }
+
+        const orderId: u64     = this._initOrder(seller, price, deadlineAbs, opts);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(orderId);
+        return out;
+    }
+
+    /**
+     * [U6-8] createOrder's price and deadline rules, without side
+     * effects: the revert reason, or '' if they hold.
+     */
+    private _createRejection(price: u256, dBlocks: u64): string {
+        if (u256.eq(price, u256.Zero)) {
+            return 'ServiceMarketplace: price must be > 0';
+        }
+        const minBlocks: u64 = this._paramU64(PARAM_MIN_DEADLINE);  // [U6-21]
+        if (dBlocks < minBlocks) {
+            return 'ServiceMarketplace: deadline below minimum (' +
+                minBlocks.toString() + ' blocks)';
+        }
+        return '';
+    }
+
+    /**
+     * createMilestoneOrder(amounts: u256[], deadlineBlocks: u64[],
+     *                      …OrderOptions) → orderId: u64   [U6-2]
+     *
+     * Seller lists an order paid in tranches.  Both arrays are
+     * encoded as a u16 length followed by the elements and must
+     * have the same length.  `deadlineBlocks[i]` is relative to the
+     * current block, like createOrder's `deadlineBlocks`.
+     *
+     *   price    = Σ amounts           (what fundOrder locks)
+     *   deadline = deadlineBlocks[last] (the order-level deadline)
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit seller non-zero check.
+     *
+     * Requirements:
+     *   • 1 <= count <= MAX_MILESTONES
+     *   • every amount > 0
+     *   • deadlineBlocks[0] >= MIN_DEADLINE_BLOCKS
+     *   • deadlineBlocks strictly increasing
+     *
+     * State after: CREATED
+     * Emits:       OrderCreated
+     */
+    private _createMilestoneOrder(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const amountCount: u16 = calldata.readU16();
+        if (amountCount === 0 || amountCount > <u16>MAX_MILESTONES) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: milestone count must be 1..' +
+                MAX_MILESTONES.toString()
+            );
+        }
+        const amounts = new Array<u256>(<i32>amountCount);
+        for (let i: i32 = 0; i < <i32>amountCount; i++) {
+            amounts[i] = calldata.readU256();
+        }
+
+        const deadlineCount: u16 = calldata.readU16();
+        if (deadlineCount !== amountCount) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: milestone amounts/deadlines length mismatch');
+        }
+        const dBlocks = new Array<u64>(<i32>deadlineCount);
+        for (let i: i32 = 0; i < <i32>deadlineCount; i++) {
+            dBlocks[i] = calldata.readU64();
+        }
+
+        const opts: OrderOptions = this._readOrderOptions(calldata);
+        const seller: Address    = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(seller);
+
+        const minBlocks: u64 = this._paramU64(PARAM_MIN_DEADLINE);  // [U6-21]
+        if (dBlocks[0] < minBlocks) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: deadline below minimum (' +
+                minBlocks.toString() + ' blocks)'
+            );
+        }
+
+        let price: u256 = u256.Zero;
+        for (let i: i32 = 0; i < amounts.length; i++) {
+            if (u256.eq(amounts[i], u256.Zero)) {
+                this._unlock();
+                throw new Revert('ServiceMarketplace: milestone amount must be > 0');
+            }
+            if (i > 0 && dBlocks[i] <= dBlocks[i - 1]) {
+                this._unlock();
+                throw new Revert('ServiceMarketplace: milestone deadlines must be strictly increasing');
+            }
+            price = SafeMath.add(price, amounts[i]);
+        }
+
+        const count: u8        = <u8>amountCount;
+        const deadlineAbs: u64 = this._absoluteDeadline(dBlocks[count - 1]);
+
+        // [U6-24]
+        if (this._breakerGate(opts.paymentToken)) {
+            this._unlock();
+            return this._trippedReply(SZ_U64);
+        }
+
+        const orderId: u64     = this._initOrder(seller, price, deadlineAbs, opts);
+
+        this._writeMilestoneCount(orderId, count);
+        this._writeMilestonesReleased(orderId, 0);
+        for (let i: u8 = 0; i < count; i++) {
+            this._writeMilestoneAmount(orderId, i, amounts[i]);
+            this._writeMilestoneDeadline(orderId, i, this._absoluteDeadline(dBlocks[i]));
+        }
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(orderId);
+        return out;
+    }
+
+    /**
+     * updateOrder(orderId: u64, newPrice: u256, newDeadlineBlocks: u64) → revision: u32   [U6-16]
+     *
+     * Seller edits price and deadline of an unfunded single-price
+     * order, keeping its id.  `newDeadlineBlocks` is relative, as in
+     * createOrder.  If a buyer had accepted, the order returns to
+     * CREATED: buyer, acceptedAt and any open extension proposal
+     * are cleared and the order must be accepted again.  The buyer
+     * index keeps its entry (indexes are append-only).
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     * [V4-U4] _transition enforces ACCEPTED → CREATED.
+     *
+     * Requirements:
+     *   • state ∈ {CREATED, ACCEPTED}
+     *   • caller == seller
+     *   • not a milestone order (its price is the tranche sum)
+     *   • not a listing purchase   [U6-17]
+     *   • newPrice > 0
+     *   • newDeadlineBlocks >= MIN_DEADLINE_BLOCKS
+     *
+     * Emits: OrderUpdated
+     */
+    private _updateOrder(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64   = calldata.readU64();
+        const newPrice: u256 = calldata.readU256();
+        const dBlocks: u64   = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        this._requireCaller(this._readSeller(orderId));
+
+        const state: u8 = this._readState(orderId);
+        if (state !== STATE_CREATED && state !== STATE_ACCEPTED) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only unfunded orders can be updated');
+        }
+        if (this._readMilestoneCount(orderId) !== 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: milestone orders cannot be updated');
+        }
+        // [U6-17] A purchase is priced by its listing.
+        if (this._readOrderListing(orderId) !== 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: listing purchases cannot be updated');
+        }
+        if (u256.eq(newPrice, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: price must be > 0');
+        }
+        const minBlocks: u64 = this._orderParam(orderId, PARAM_MIN_DEADLINE);  // [U6-21]
+        if (dBlocks < minBlocks) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: deadline below minimum (' +
+                minBlocks.toString() + ' blocks)'
+            );
+        }
+
+        const revision: u32 = this._readRevision(orderId);
+        if (revision === u32.MAX_VALUE) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: revision overflow');
+        }
+
+        if (state === STATE_ACCEPTED) {
+            // [V4-U4] The buyer accepted different terms.
+            this._transition(orderId, STATE_ACCEPTED, STATE_CREATED);
+            this._writeBuyer(orderId, Address.fromU256(u256.Zero));
+            this._writeAcceptedAt(orderId, 0);
+            this._clearExtension(orderId);  // [U6-15]
+        }
+
+        const deadlineAbs: u64 = this._absoluteDeadline(dBlocks);
+        this._writePrice(orderId, newPrice);
+        this._writeDeadline(orderId, deadlineAbs);
+        this._writeRevision(orderId, revision + 1);
+
+        this.emitEvent(new OrderUpdatedEvent(orderId, revision + 1, newPrice, deadlineAbs));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U32);
+        out.writeU32(revision + 1);
+        return out;
+    }
+
+    /**
+     * acceptOrder(orderId: u64, termsHash: bytes32) → bool
+     * acceptOrderFor(orderId: u64, termsHash: bytes32, buyer: Address) → bool   [U6-20]
+     *
+     * Buyer registers intent.  Transitions CREATED → ACCEPTED.
+     * Records acceptedAt block for the funding timeout window.
+     * [U6-6] `termsHash` must equal the hash committed at creation
+     * (zero for orders listed without a commitment).
+     * [U6-20] acceptOrderFor: an operator holding PERM_ACCEPT for
+     * `buyer` accepts in the buyer's name.
+     * [U6-17] On a listing id the call buys one unit instead: a new
+     * purchase order is created and accepted for the buyer (its id
+     * is in ListingPurchased); the listing itself does not change
+     * state.  termsHash is checked against the listing's.
+     *
+     * [U5-1] Stores acceptedAt = currentBlock.
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit buyer non-zero check.
+     * [V4-U1] Order existence guard.
+     * [V4-U4] _transition enforces CREATED → ACCEPTED atomically.
+     *
+     * Requirements:
+     *   • orderId exists
+     *   • state == CREATED
+     *   • deadline not expired
+     *   • caller ≠ seller
+     *   • caller ≠ arbiter   [U6-1]
+     *   • caller is a designated buyer, if any are set   [U6-12]
+     *   • caller is non-zero
+     *   • termsHash == committed termsHash   [U6-6]
+     *
+     * State after: ACCEPTED (the new purchase, for a listing)
+     * Emits:       OrderAccepted
+     *              (+ OrderCreated, ListingPurchased for a listing)
+     */
+    private _acceptOrder(calldata: Calldata, delegated: bool): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64    = calldata.readU64();
+        const termsHash: u256 = calldata.readU256();  // [U6-6] bytes32
+        // [U6-20] acceptOrderFor names the buyer; its operator calls.
+        const buyer: Address  = delegated ? calldata.readAddress() : Blockchain.sender;
+        const listing: bool   = this._isListing(orderId);  // [U6-17]
+
+        // [V4-U1]
+        if (!listing) {
+            this._requireOrderExists(orderId);
+        }
+
+        if (delegated) {
+            this._requireCaller(buyer, PERM_ACCEPT);
+        }
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+
+        // [U6-6] Buyer must have seen exactly the committed terms.
+        const committed: u256 = listing
+            ? this._readIdWord(PTR_LST_TERMS, orderId)
+            : this._readTermsHash(orderId);
+        if (!u256.eq(termsHash, committed)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: terms hash does not match the listing');
+        }
+
+        // [U6-17] Buy one unit; the purchase is born ACCEPTED.
+        if (listing) {
+            this._purchaseUnit(orderId, buyer, false);
+            this._unlock();
+
+            const bought = new BytesWriter(SZ_BOOL);
+            bought.writeBoolean(true);
+            return bought;
+        }
+
+        this._requireDeadlineNotExpired(orderId);
+
+        const seller = this._readSeller(orderId);
+
+        if (buyer.equals(seller)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: seller cannot accept own order');
+        }
+
+        // [U6-1] The arbiter must stay a neutral third party.
+        if (buyer.equals(this._readArbiter(orderId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: arbiter cannot accept the order');
+        }
+
+        // [U6-12] Private quotes are reserved for their listed buyers.
+        if (!this._isAllowedBuyer(orderId, buyer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: caller is not a designated buyer');
+        }
+
+        // [U6-13] Shared with selectBid.
+        this._registerBuyer(orderId, buyer);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * fundOrder(orderId: u64, revision: u32) → bool
+     *
+     * Buyer locks the order price into contract escrow.
+     * [U6-16] `revision` must equal the listing's current revision
+     * (0 if never updated), so the buyer funds the price they saw.
+     * [U6-17] On a listing id the caller buys and funds one unit in
+     * a single step: a new purchase order is created, accepted for
+     * the caller and funded (its id is in ListingPurchased).
+     * Listings are never revised, so `revision` must be 0; their
+     * terms are fixed at createListing.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Order existence guard.
+     * [V4-U2] Requires STATE_ACCEPTED — no buyer-address inspection.
+     * [V4-U3] _escrowLock increments totalLocked atomically.
+     * [V4-U4] _transition enforces ACCEPTED → FUNDED.
+     * [U6-5] Price is pulled in the order's payment token; for an
+     *        external OP-20 the buyer must first approve() this
+     *        contract for at least `price`.
+     *
+     * Balance model (in the order's payment token):
+     *   buyer balance         -= price
+     *   contract balance      += price
+     *   totalLocked[token]    += price
+     *
+     * Requirements:
+     *   • orderId exists
+     *   • state == ACCEPTED
+     *   • caller == registered buyer
+     *   • deadline not expired
+     *   • accept timeout not exceeded (within ACCEPT_TIMEOUT_BLOCKS)
+     *   • revision == current revision   [U6-16]
+     *   • buyer payment-token balance (or allowance) >= price
+     *
+     * State after: FUNDED (the new purchase, for a listing)
+     * Emits:       OrderFunded
+     *              (+ OrderCreated, OrderAccepted, ListingPurchased
+     *              for a listing)
+     */
+    private _fundOrder(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64  = calldata.readU64();
+        const revision: u32 = calldata.readU32();  // [U6-16]
+
+        // [U6-17] Buy and fund one unit for the caller.
+        if (this._isListing(orderId)) {
+            if (revision !== 0) {
+                this._unlock();
+                throw new Revert('ServiceMarketplace: listings have no revisions — pass 0');
+            }
+            const buyer: Address = Blockchain.sender;
+            // [U5-4]
+            this._requireNonZeroAddress(buyer);
+
+            const purchase: u64 = this._purchaseUnit(orderId, buyer, true);
+            this._unlock();
+            if (purchase === 0) {
+                return this._trippedReply(SZ_BOOL);  // [U6-24]
+            }
+
+            const bought = new BytesWriter(SZ_BOOL);
+            bought.writeBoolean(true);
+            return bought;
+        }
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        // [U6-16] Price and deadline must be the ones the buyer saw.
+        if (revision !== this._readRevision(orderId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: listing was updated — revision mismatch');
+        }
+
+        this._requireDeadlineNotExpired(orderId);
+
+        const buyer = this._readBuyer(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+        this._requireCaller(buyer, PERM_FUND);  // [U6-20]
+
+        // [U5-1] Buyer must fund within ACCEPT_TIMEOUT_BLOCKS.
+        const block: u64        = this._currentBlock();
+        const fundDeadline: u64 = this._fundDeadline(orderId);  // [U6-21]
+
+        if (block > fundDeadline) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: accept timeout expired — buyer must re-accept');
+        }
+
+        // [U6-24]
+        if (this._breakerGate(this._readPaymentToken(orderId))) {
+            this._unlock();
+            return this._trippedReply(SZ_BOOL);
+        }
+
+        // [U6-13] Shared with selectBid.
+        this._lockPayment(orderId, buyer);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * confirmCompletion(orderId: u64) → bool
+     *
+     * Buyer confirms off-chain service delivery.
+     * Releases escrowed funds to seller.  For milestone orders this
+     * releases all tranches still locked [U6-2].
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Seller non-zero check before release.
+     * [V4-U1] Order existence guard.
+     * [V4-U3] _escrowRelease decrements totalLocked atomically.
+     * [V4-U4] _transition enforces FUNDED → COMPLETED.
+     *
+     * Balance model ([U6-3] fee = locked × PROTOCOL_FEE_BPS / 10 000):
+     *   contract.balanceOfMap -= locked − fee
+     *   seller.balanceOfMap   += locked − fee
+     *   totalLocked           -= locked
+     *   feesAccrued           += fee
+     *
+     * Requirements:
+     *   • orderId exists
+     *   • state == FUNDED
+     *   • caller == buyer
+     *   (Confirmation is valid even after deadline — deadline gates
+     *    cancellation only, not confirmation.)
+     *
+     * State after: COMPLETED (terminal)
+     * Emits:       OrderCompleted
+     */
+    private _confirmCompletion(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const buyer  = this._readBuyer(orderId);
+        const seller = this._readSeller(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+        this._requireNonZeroAddress(seller);
+
+        this._requireCaller(buyer, PERM_CONFIRM);  // [U6-20]
+
+        const locked = this._readLocked(orderId);
+        if (u256.eq(locked, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: invariant error — locked is zero in FUNDED state');
+        }
+
+        // [U6-14] Shared with claimAutoRelease.
+        this._completeFunded(orderId, seller, buyer, locked);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * markDelivered(orderId: u64) → bool   [U6-14]
+     *
+     * Seller signals that the work is delivered.  Starts the
+     * buyer's review window of REVIEW_WINDOW_BLOCKS; while it runs
+     * the buyer may confirmCompletion or openDispute, but may no
+     * longer cancel for a missed deadline.  Can be marked once.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • state == FUNDED
+     *   • caller == seller
+     *   • deadline not expired
+     *   • not already marked
+     *
+     * Emits: OrderDelivered
+     */
+    private _markDelivered(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const seller = this._readSeller(orderId);
+        this._requireCaller(seller);
+
+        if (this._readState(orderId) !== STATE_FUNDED) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only a FUNDED order can be marked delivered');
+        }
+        if (this._readDeliveredAt(orderId) !== 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: delivery already marked');
+        }
+        this._requireDeadlineNotExpired(orderId);
+
+        const block: u64 = this._currentBlock();
+        this._writeDeliveredAt(orderId, block);
+
+        this.emitEvent(new OrderDeliveredEvent(orderId, seller, block, this._reviewEndsAt(orderId)));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * claimAutoRelease(orderId: u64) → bool   [U6-14]
+     *
+     * Permissionless.  Completes a delivered order whose review
+     * window lapsed without confirmation or dispute; the seller is
+     * paid exactly as by confirmCompletion.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Seller non-zero check before release.
+     * [V4-U1] Existence guard.
+     * [V4-U4] _transition enforces FUNDED → COMPLETED.
+     *
+     * Requirements:
+     *   • state == FUNDED (a dispute moves it out of reach)
+     *   • delivery marked and block >= deliveredAt + REVIEW_WINDOW_BLOCKS
+     *
+     * State after: COMPLETED (terminal)
+     * Emits:       OrderCompleted
+     */
+    private _claimAutoRelease(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        if (this._readState(orderId) !== STATE_FUNDED) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only a FUNDED order can be auto-released');
+        }
+        if (this._readDeliveredAt(orderId) === 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: delivery has not been marked');
+        }
+        if (this._currentBlock() < this._reviewEndsAt(orderId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: review window has not elapsed yet');
+        }
+
+        const seller = this._readSeller(orderId);
+        const buyer  = this._readBuyer(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(seller);
+
+        const locked = this._readLocked(orderId);
+        if (u256.eq(locked, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: invariant error — locked is zero in FUNDED state');
+        }
+
+        this._completeFunded(orderId, seller, buyer, locked);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * releaseMilestone(orderId: u64, index: u8) → bool   [U6-2]
+     *
+     * Buyer releases the next tranche of a FUNDED milestone order
+     * to the seller.  Tranches are released strictly in order;
+     * `index` must name the next unreleased one, which makes a
+     * replayed or stale call revert instead of paying twice.
+     *
+     * Releasing the final tranche completes the order.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Seller non-zero check before release.
+     * [V4-U1] Order existence guard.
+     * [V4-U3] _escrowRelease decrements totalLocked atomically.
+     * [V4-U4] Final tranche: _transition enforces FUNDED → COMPLETED.
+     *
+     * Balance model ([U6-3] less the protocol fee, as confirmCompletion):
+     *   seller.balanceOfMap   += amounts[index] − fee
+     *   totalLocked           -= amounts[index]
+     *   feesAccrued           += fee
+     *   locked[orderId]       -= amounts[index]
+     *
+     * Requirements:
+     *   • orderId exists and is a milestone order
+     *   • state == FUNDED
+     *   • caller == buyer
+     *   • index == milestonesReleased
+     *
+     * Emits: MilestoneReleased (+ OrderCompleted on the last tranche,
+     *        with the order total Σ amounts, not the tranche)
+     */
+    private _releaseMilestone(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+        const index: u8    = calldata.readU8();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const count: u8 = this._readMilestoneCount(orderId);
+        if (count === 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: not a milestone order');
+        }
+
+        const buyer  = this._readBuyer(orderId);
+        const seller = this._readSeller(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+        this._requireNonZeroAddress(seller);
+
+        this._requireCaller(buyer, PERM_CONFIRM);  // [U6-20]
+
+        const state: u8 = this._readState(orderId);
+        if (state !== STATE_FUNDED) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: milestones release only from FUNDED, current ' +
+                state.toString()
+            );
+        }
+
+        const released: u8 = this._readMilestonesReleased(orderId);
+        if (index !== released) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: next releasable milestone is ' + released.toString()
+            );
+        }
+
+        const amount: u256 = this._readMilestoneAmount(orderId, index);
+        const locked: u256 = this._readLocked(orderId);
+        if (u256.lt(locked, amount)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: invariant error — milestone exceeds locked');
+        }
+
+        const isLast: bool = index + 1 === count;
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._writeMilestonesReleased(orderId, index + 1);
+        this._writeLocked(orderId, SafeMath.sub(locked, amount));
+        // [U6-4] An open settlement was priced against the old
+        // locked amount; it no longer describes the escrow.
+        this._clearSettlement(orderId);
+        if (isLast) {
+            // [V4-U4] FUNDED → COMPLETED committed before release.
+            this._transition(orderId, STATE_FUNDED, STATE_COMPLETED);
+        }
+
+        // [V4-U3] [U6-3]
+        this._payoutSeller(orderId, seller, amount);
+
+        if (isLast) {
+            this._releaseBond(orderId, seller);                        // [U6-11]
+            this._recordCompletion(seller, this._readBuyer(orderId));  // [U6-10]
+        }
+
+        this.emitEvent(new MilestoneReleasedEvent(orderId, index, seller, amount));
+        if (isLast) {
+            // OrderCompleted reports the price (Σ amounts), as
+            // _completeFunded does; the tranche is in MilestoneReleased.
+            this.emitEvent(new OrderCompletedEvent(
+                orderId, seller, this._readPrice(orderId), Blockchain.sender
+            ));
+        }
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * cancelOrder(orderId: u64) → bool
+     *
+     * Multi-path cancellation function handling four distinct states.
+     * Each state has its own eligibility rules and refund routing.
+     *
+     * [U5-1] ACCEPTED state: cancellable after accept timeout.
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Address non-zero checks before any escrow release.
+     * [V4-U1] Order existence guard.
+     * [V4-U3] _escrowRelease decrements totalLocked atomically.
+     * [V4-U4] _transition enforces each from→to atomically.
+     *
+     * ── Cancellation rules by state ──────────────────────────
+     *
+     *  CREATED  → seller or any party after deadline
+     *             No funds to refund; buyer slot is zero.
+     *
+     *  ACCEPTED → any party after accept timeout expires
+     *             [U5-1] fundDeadline = acceptedAt + ACCEPT_TIMEOUT_BLOCKS
+     *             No funds locked; no refund needed.
+     *
+     *  FUNDED   → seller at any time (refund to buyer)
+     *             OR buyer after deadline (refund to buyer)
+     *             Releases locked funds back to buyer.
+     *             [U6-2] Milestone orders: "deadline" is that of the
+     *             next unreleased tranche; only unreleased tranches
+     *             (PTR_LOCKED) are refunded.
+     *             [U6-14] Buyer path closed once delivery is marked.
+     *
+     *  DISPUTED → buyer only after disputedAt + DISPUTE_TIMEOUT_BLOCKS [U6-9]
+     *             Releases locked funds back to buyer.
+     *             [U6-1] Until then only the arbiter (if any) can
+     *             move the funds, via resolveDispute.
+     *
+     * Emits: OrderCancelled
+     */
+    private _cancelOrder(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64    = calldata.readU64();
+        const caller: Address = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        // [U6-8] Eligibility rules live in _cancelRejection so that
+        // cancelOrders() can evaluate them without reverting.
+        const reason: string = this._cancelRejection(orderId, caller);
+        if (reason.length > 0) {
+            this._unlock();
+            throw new Revert(reason);
+        }
+
+        this._executeCancel(orderId);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * [U6-8] Cancellation eligibility, without side effects.
+     * Returns the revert reason if `caller` may not cancel
+     * `orderId` right now, or '' if it may.  The order must exist.
+     * See cancelOrder for the rules by state.
+     * [U6-20] "seller" / "buyer" include their PERM_CANCEL operators.
+     */
+    private _cancelRejection(orderId: u64, caller: Address): string {
+        const state: u8  = this._readState(orderId);
+        const block: u64 = this._currentBlock();
+
+        if (state === STATE_CREATED) {
+            // ── Created — seller or deadline ──────────────────
+            if (!this._actsFor(caller, this._readSeller(orderId), PERM_CANCEL) && !this._isDeadlineExpired(orderId)) {
+                return 'ServiceMarketplace: only seller may cancel before deadline';
+            }
+            return '';
+        }
+
+        if (state === STATE_ACCEPTED) {
+            // ── Accepted — any party after accept timeout ──────
+            const fundDeadline: u64 = this._fundDeadline(orderId);  // [U6-21]
+
+            if (block <= fundDeadline) {
+                return 'ServiceMarketplace: accept timeout has not elapsed yet';
+            }
+            return '';
+        }
+
+        if (state === STATE_FUNDED) {
+            // ── Funded — seller anytime, buyer after deadline ──
+            // [U6-2] For milestone orders the buyer's right to cancel
+            // opens once the next unreleased tranche is overdue.
+            if (!this._actsFor(caller, this._readSeller(orderId), PERM_CANCEL)) {
+                if (!this._actsFor(caller, this._readBuyer(orderId), PERM_CANCEL) || block <= this._nextDueDeadline(orderId)) {
+                    return 'ServiceMarketplace: only seller may cancel before deadline';
+                }
+                // [U6-14] A marked delivery is confirmed, disputed
+                // or auto-released — never silently refunded.
+                if (this._readDeliveredAt(orderId) !== 0) {
+                    return 'ServiceMarketplace: delivery is pending review';
+                }
+            }
+            return '';
+        }
+
+        if (state === STATE_DISPUTED) {
+            // ── Disputed — buyer force-refund after timeout ────
+            // [U6-9] Measured from the block the dispute was opened.
+            if (block < this._forceRefundAt(orderId)) {
+                return 'ServiceMarketplace: dispute timeout has not elapsed yet';
+            }
+            if (!this._actsFor(caller, this._readBuyer(orderId), PERM_CANCEL)) {
+                return 'ServiceMarketplace: only buyer may force-cancel after dispute timeout';
+            }
+            return '';
+        }
+
+        return 'ServiceMarketplace: order not cancellable in state ' + state.toString();
+    }
+
+    /**
+     * [U6-8] _cancelRejection for an unchecked id: also reports a
+     * missing order or a listing id — the non-throwing form of
+     * _requireOrderExists [V4-U1].
+     */
+    private _cancelRejectionById(orderId: u64, caller: Address): string {
+        if (orderId === 0 || orderId > this._readOrderCount()) {
+            return 'ServiceMarketplace: order does not exist';
+        }
+        if (this._isListing(orderId)) {  // [U6-17]
+            return 'ServiceMarketplace: id is a listing, not an order';
+        }
+        return this._cancelRejection(orderId, caller);
+    }
+
+    /**
+     * [U6-8] Cancellation effects.  Callers have already passed
+     * _cancelRejection for this order in this frame.
+     * [U6-10] Funded cancellations the buyer's side forced — past
+     *         the deadline, or a DISPUTED force-refund — count
+     *         against the seller; a seller-side refund does not.
+     * [U6-11] Bond to the buyer on a DISPUTED force-refund, else
+     *         back to the seller.
+     * [U6-17] A cancelled purchase returns its unit to the listing
+     *         unless it was delivered (_restoreListingUnit).
+     *
+     * Emits: OrderCancelled
+     */
+    private _executeCancel(orderId: u64): void {
+        const state: u8 = this._readState(orderId);
+
+        // [U6-17]
+        this._restoreListingUnit(orderId);
+
+        if (state === STATE_CREATED || state === STATE_ACCEPTED) {
+            // [V4-U4] CREATED|ACCEPTED → CANCELLED.
+            this._transition(orderId, state, STATE_CANCELLED);
+
+            // No buyer funds were locked; emit with zero amount.
+            const seller = this._readSeller(orderId);
+            this._releaseBond(orderId, seller);  // [U6-11]
+            this.emitEvent(new OrderCancelledEvent(orderId, seller, u256.Zero, Blockchain.sender));
+            return;
+        }
+
+        // FUNDED or DISPUTED — refund whatever is still locked.
+        const buyer  = this._readBuyer(orderId);
+        const locked = this._readLocked(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+
+        // [V4-U4] State and locked zeroed before release.
+        this._transition(orderId, state, STATE_CANCELLED);
+        this._writeLocked(orderId, u256.Zero);
+
+        // [V4-U3]
+        this._escrowRelease(this._readPaymentToken(orderId), buyer, locked);
+
+        // [U6-11] A force-refunded dispute forfeits the bond to
+        // the buyer; a plain funded cancel returns it.
+        const seller = this._readSeller(orderId);
+        this._releaseBond(orderId, state === STATE_DISPUTED ? buyer : seller);
+
+        // [U6-10] Only a cancel the buyer's side forced counts
+        // against the seller.  _cancelRejection admits anyone else
+        // on a FUNDED order only as the seller or its operator.
+        if (state === STATE_DISPUTED) {
+            this._bumpCounter(PTR_REP_CANCELS, seller);
+            this._bumpCounter(PTR_REP_LOST, seller);
+        } else if (!this._actsFor(Blockchain.sender, seller, PERM_CANCEL)) {
+            this._bumpCounter(PTR_REP_CANCELS, seller);
+        }
+
+        this.emitEvent(new OrderCancelledEvent(orderId, buyer, locked, Blockchain.sender));
+    }
+
+    /**
+     * cancelOrders(orderIds: u64[], revertOnFailure: bool) → u8[]   [U6-8]
+     *
+     * Batch cancellation for keepers cleaning up expired orders.
+     * Each id is checked against the same rules as cancelOrder
+     * (_cancelRejection) with Blockchain.sender as the caller.
+     *
+     *   revertOnFailure = true  → the first ineligible id reverts
+     *                             the whole batch.
+     *   revertOnFailure = false → ineligible ids are skipped and
+     *                             reported; eligible ones cancel.
+     *
+     * `orderIds` is a u16 length followed by the ids, at most
+     * MAX_BATCH_SIZE entries.
+     *
+     * [U5-3] One reentrancy-guarded frame for the whole batch.
+     *
+     * Return layout (2 + count bytes):
+     *   u16  count
+     *   bool cancelled[…]   one per input id, in order
+     *
+     * Emits: OrderCancelled per cancelled order
+     */
+    private _cancelOrders(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const count: u16 = calldata.readU16();
+        if (count === 0 || count > MAX_BATCH_SIZE) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: batch size must be 1..' + MAX_BATCH_SIZE.toString()
+            );
+        }
+        const ids = new Array<u64>(<i32>count);
+        for (let i: i32 = 0; i < <i32>count; i++) {
+            ids[i] = calldata.readU64();
+        }
+        const revertOnFailure: bool = calldata.readBoolean();
+
+        const caller: Address = Blockchain.sender;
+
+        const out = new BytesWriter(SZ_U16 + <i32>count * SZ_BOOL);
+        out.writeU16(count);
+
+        for (let i: i32 = 0; i < <i32>count; i++) {
+            const orderId: u64 = ids[i];
+
+            const reason: string = this._cancelRejectionById(orderId, caller);
+
+            if (reason.length > 0) {
+                if (revertOnFailure) {
+                    this._unlock();
+                    throw new Revert(reason + ' (batch item ' + i.toString() + ')');
+                }
+                out.writeBoolean(false);
+                continue;
+            }
+
+            this._executeCancel(orderId);
+            out.writeBoolean(true);
+        }
+
+        this._unlock();
+        return out;
+    }
+
+    /**
+     * multicall(calls: bytes[], revertOnFailure: bool) → results   [U6-8]
+     *
+     * Runs several marketplace calls in one transaction.  Each
+     * element is a complete call payload — 4-byte selector followed
+     * by that selector's arguments — and is routed through
+     * _dispatch() exactly as if sent on its own, with the same
+     * Blockchain.sender.
+     *
+     *   revertOnFailure = true  → atomic: a Revert inside any item
+     *                             aborts the whole batch.
+     *   revertOnFailure = false → items with a side-effect-free
+     *                             eligibility check (_batchRejection:
+     *                             createOrder, cancelOrder) are
+     *                             checked first; an ineligible item
+     *                             is skipped and its revert reason
+     *                             reported, the rest still run.
+     *
+     * AssemblyScript cannot catch a Revert in-frame, so per-item
+     * reporting covers only what _batchRejection can evaluate
+     * up front.  Any other failure — an item without a check, a
+     * payload that does not decode, a token call that fails —
+     * still aborts the batch.  There is no typed createOrders
+     * batch: multicall of createOrder items in report mode covers
+     * it.
+     *
+     * Encoding:
+     *   calls   = u16 count, then per call: u32 length, payload
+     *   results = u16 count, then per call: bool ok, u32 length,
+     *             return data (ok) or UTF-8 revert reason (skipped)
+     *
+     * [U5-3] One reentrancy-guarded frame for the whole batch: the
+     * lock is held throughout and each item passes its own guard
+     * through _batchItem (see REENTRANCY GUARD).  A nested
+     * multicall is rejected via _inBatch.
+     */
+    private _multicall(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        if (this._inBatch) {
+            throw new Revert('ServiceMarketplace: nested multicall');
+        }
+        this._lock();
+
+        const count: u16 = calldata.readU16();
+        if (count === 0 || count > MAX_BATCH_SIZE) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: batch size must be 1..' + MAX_BATCH_SIZE.toString()
+            );
+        }
+        const payloads = new Array<Uint8Array>(<i32>count);
+        for (let i: i32 = 0; i < <i32>count; i++) {
+            payloads[i] = calldata.readBytes(calldata.readU32());
+        }
+        const revertOnFailure: bool = calldata.readBoolean();
+
+        const caller: Address = Blockchain.sender;
+        const ok      = new Array<bool>(<i32>count);
+        const results = new Array<Uint8Array>(<i32>count);
+        let total: i32 = SZ_U16;
+
+        this._inBatch = true;
+        for (let i: i32 = 0; i < <i32>count; i++) {
+            let reason: string = '';
+            if (!revertOnFailure) {
+                const check = new BytesReader(payloads[i]);
+                reason = this._batchRejection(check.readSelector(), check, caller);
+            }
+
+            if (reason.length > 0) {
+                ok[i]      = false;
+                results[i] = Uint8Array.wrap(String.UTF8.encode(reason));
+            } else {
+                const sub = new BytesReader(payloads[i]);
+                const selector: Selector = sub.readSelector();
+
+                this._batchItem = true;
+                ok[i]      = true;
+                results[i] = this._dispatch(selector, sub).getBuffer();
+                this._batchItem = false;
+            }
+            total += SZ_BOOL + SZ_U32 + results[i].length;
+        }
+        this._inBatch = false;
+
+        this._unlock();
+
+        const out = new BytesWriter(total);
+        out.writeU16(count);
+        for (let i: i32 = 0; i < <i32>count; i++) {
+            out.writeBoolean(ok[i]);
+            out.writeU32(<u32>results[i].length);
+            out.writeBytes(results[i]);
+        }
+        return out;
+    }
+
+    /**
+     * [U6-8] Eligibility of one multicall item, without side
+     * effects: the revert reason the item would hit, or '' if it
+     * may run.  Selectors without a check here return '' and are
+     * left to fail, if they fail, inside _dispatch.
+     */
+    private _batchRejection(selector: Selector, args: BytesReader, caller: Address): string {
+        if (selector === encodeSelector('createOrder(uint256,uint64,address,uint16,address,bytes32,uint256,address[])')) {
+            const price: u256        = args.readU256();
+            const dBlocks: u64       = args.readU64();
+            const opts: OrderOptions = this._readOrderOptions(args);
+
+            const reason: string = this._createRejection(price, dBlocks);
+            return reason.length > 0 ? reason : this._orderOptionsRejection(caller, opts);
+        }
+        if (selector === encodeSelector('cancelOrder(uint64)')) {
+            return this._cancelRejectionById(args.readU64(), caller);
+        }
+        return '';
+    }
+
+    /**
+     * openDispute(orderId: u64) → bool
+     *
+     * Either buyer or seller may dispute a FUNDED order.
+     * Funds remain locked.  State transitions to DISPUTED.
+     *
+     * Trust-minimised design:
+     *   Funds are NOT auto-released on dispute — auto-release
+     *   would allow a bad actor to manufacture a dispute and
+     *   steal escrowed value.  Funds are frozen until the arbiter
+     *   splits them via resolveDispute [U6-1], or the buyer
+     *   force-cancels after DISPUTE_TIMEOUT_BLOCKS via cancelOrder.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U6-9] Records disputedAt; opens the evidence window.
+     * [U6-10] Counts the dispute against the party's reputation.
+     * [U6-20] A PERM_DISPUTE operator may raise it for either party.
+     * [U6-14] Closed once a delivery's review window has lapsed.
+     * [V4-U1] Existence guard.
+     * [V4-U4] _transition enforces FUNDED → DISPUTED.
+     *
+     * State after: DISPUTED
+     * Emits:       OrderDisputed
+     */
+    private _openDispute(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const caller = Blockchain.sender;
+        const seller = this._readSeller(orderId);
+        const buyer  = this._readBuyer(orderId);
+
+        // [U6-20] The party on whose behalf the dispute is raised.
+        let party: Address;
+        if (this._actsFor(caller, buyer, PERM_DISPUTE)) {
+            party = buyer;
+        } else if (this._actsFor(caller, seller, PERM_DISPUTE)) {
+            party = seller;
+        } else {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only buyer or seller may open a dispute');
+        }
+
+        // [U6-14] A lapsed review window is settled by claimAutoRelease.
+        if (this._currentBlock() >= this._reviewEndsAt(orderId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: review window has elapsed');
+        }
+
+        // [V4-U4]
+        this._transition(orderId, STATE_FUNDED, STATE_DISPUTED);
+
+        // [U6-9] Anchor the force-refund timeout and evidence window.
+        this._writeDisputedAt(orderId, this._currentBlock());
+
+        // [U6-10]
+        this._bumpCounter(PTR_REP_DISPUTES, party);
+
+        this.emitEvent(new OrderDisputedEvent(orderId, party, caller));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * submitEvidence(orderId: u64, evidenceHash: bytes32) → index: u32   [U6-9]
+     *
+     * Buyer or seller attaches the hash of an off-chain evidence
+     * file to an open dispute.  Only the hash is stored in the
+     * event log; the contract keeps a per-order count.  Accepted
+     * until the force-refund point (disputedAt + DISPUTE_TIMEOUT_BLOCKS).
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • state == DISPUTED
+     *   • caller ∈ {buyer, seller}
+     *   • block < disputedAt + DISPUTE_TIMEOUT_BLOCKS
+     *
+     * Emits: EvidenceSubmitted
+     */
+    private _submitEvidence(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64       = calldata.readU64();
+        const evidenceHash: u256 = calldata.readU256();  // bytes32
+        const caller: Address    = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        if (this._readState(orderId) !== STATE_DISPUTED) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: evidence only accepted while DISPUTED');
+        }
+        if (!caller.equals(this._readBuyer(orderId)) && !caller.equals(this._readSeller(orderId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only buyer or seller may submit evidence');
+        }
+        if (this._currentBlock() >= this._forceRefundAt(orderId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: evidence window has closed');
+        }
+
+        const index: u32 = this._readEvidenceCount(orderId);
+        if (index === u32.MAX_VALUE) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: evidence count overflow');
+        }
+        this._writeEvidenceCount(orderId, index + 1);
+
+        this.emitEvent(new EvidenceSubmittedEvent(orderId, caller, evidenceHash, index));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U32);
+        out.writeU32(index);
+        return out;
+    }
+
+    /**
+     * resolveDispute(orderId: u64, sellerAmount: u256) → bool   [U6-1]
+     *
+     * The order's arbiter splits the frozen escrow of a DISPUTED
+     * order.  The arbiter fee is carved out of the locked amount
+     * first; the remainder is divided as:
+     *
+     *   arbiterFee   = locked × arbiterFeeBps / 10 000
+     *   sellerAmount = as supplied by the arbiter
+     *   buyerAmount  = locked − arbiterFee − sellerAmount
+     *
+     * Every leg goes through _escrowRelease, so totalLocked drops
+     * by exactly `locked` and the escrow invariant is re-checked.
+     * [U6-3] The seller leg is a normal payout and carries the
+     * protocol fee; the buyer and arbiter legs do not.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Non-zero recipients (enforced by _escrowRelease).
+     * [V4-U1] Existence guard.
+     * [V4-U4] _transition enforces DISPUTED → RESOLVED.
+     *
+     * Requirements:
+     *   • orderId exists
+     *   • order has an arbiter and caller == arbiter
+     *   • state == DISPUTED
+     *   • sellerAmount <= locked − arbiterFee
+     *
+     * State after: RESOLVED (terminal)
+     * Emits:       DisputeResolved
+     */
+    private _resolveDispute(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64       = calldata.readU64();
+        const sellerAmount: u256 = calldata.readU256();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const arbiter = this._readArbiter(orderId);
+        if (this._isZeroAddress(arbiter)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: order has no arbiter');
+        }
+        this._requireCaller(arbiter);
+
+        const seller = this._readSeller(orderId);
+        const buyer  = this._readBuyer(orderId);
+        const locked = this._readLocked(orderId);
+        const token  = this._readPaymentToken(orderId);  // [U6-5]
+
+        const fee: u256           = this._bpsOf(locked, this._readArbiterFeeBps(orderId));
+        const distributable: u256 = SafeMath.sub(locked, fee);
+
+        if (u256.gt(sellerAmount, distributable)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: seller share exceeds distributable escrow');
+        }
+        const buyerAmount: u256 = SafeMath.sub(distributable, sellerAmount);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        // [V4-U4] DISPUTED → RESOLVED committed before any release.
+        this._transition(orderId, STATE_DISPUTED, STATE_RESOLVED);
+        this._writeLocked(orderId, u256.Zero);
+
+        // [V4-U3] Zero legs are no-ops inside _escrowRelease.
+        // [U6-3] The seller leg pays the protocol fee like any payout.
+        this._payoutSeller(orderId, seller, sellerAmount);
+        this._escrowRelease(token, buyer,   buyerAmount);
+        this._escrowRelease(token, arbiter, fee);
+        this._releaseBond(orderId, seller);  // [U6-11]
+
+        this.emitEvent(new DisputeResolvedEvent(
+            orderId, arbiter, sellerAmount, buyerAmount, fee
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * [U6-4] Shared settlement precondition: the order is FUNDED or
+     * DISPUTED and `caller` is its buyer or seller.
+     */
+    private _requireSettleable(orderId: u64, caller: Address): void {
+        const state: u8 = this._readState(orderId);
+        if (state !== STATE_FUNDED && state !== STATE_DISPUTED) {
+            throw new Revert(
+                'ServiceMarketplace: settlement requires FUNDED or DISPUTED, current ' +
+                state.toString()
+            );
+        }
+        if (!caller.equals(this._readBuyer(orderId)) && !caller.equals(this._readSeller(orderId))) {
+            throw new Revert('ServiceMarketplace: only buyer or seller may settle');
+        }
+    }
+
+    /**
+     * proposeSettlement(orderId: u64, sellerAmount: u256) → bool   [U6-4]
+     *
+     * Buyer or seller offers to split the locked escrow:
+     * `sellerAmount` to the seller, the rest back to the buyer.
+     * Replaces any open proposal, including the counterparty's.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • state ∈ {FUNDED, DISPUTED}
+     *   • caller ∈ {buyer, seller}
+     *   • sellerAmount <= locked
+     *
+     * Emits: SettlementProposed
+     */
+    private _proposeSettlement(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64       = calldata.readU64();
+        const sellerAmount: u256 = calldata.readU256();
+        const caller: Address    = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+        this._requireSettleable(orderId, caller);
+
+        const locked = this._readLocked(orderId);
+        if (u256.gt(sellerAmount, locked)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: seller share exceeds locked escrow');
+        }
+
+        this._writeSettlement(orderId, caller, sellerAmount);
+
+        this.emitEvent(new SettlementProposedEvent(
+            orderId, caller, sellerAmount, SafeMath.sub(locked, sellerAmount)
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * withdrawSettlement(orderId: u64) → bool   [U6-4]
+     *
+     * The proposer retracts their open proposal.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Emits: SettlementWithdrawn
+     */
+    private _withdrawSettlement(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64 = calldata.readU64();
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const proposer = this._readSettleProposer(orderId);
+        if (this._isZeroAddress(proposer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: no open settlement proposal');
+        }
+        this._requireCaller(proposer);
+
+        this._clearSettlement(orderId);
+
+        this.emitEvent(new SettlementWithdrawnEvent(orderId, proposer));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * acceptSettlement(orderId: u64, expectedSellerAmount: u256) → bool   [U6-4]
+     *
+     * The counterparty of the open proposal executes it.
+     * `expectedSellerAmount` must equal the proposed seller share:
+     * the proposer can replace a proposal at any time, and without
+     * the echo a replacement landing just before the accept would
+     * be executed on terms the accepter never saw.  Locked
+     * funds are split with two releases; the seller leg is a normal
+     * payout and carries the protocol fee [U6-3].  No arbiter fee
+     * is due — the arbiter did not decide anything.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Non-zero recipients (enforced by _escrowRelease).
+     * [V4-U1] Existence guard.
+     * [V4-U3] totalLocked drops by exactly `locked`.
+     * [V4-U4] _transition enforces FUNDED|DISPUTED → SETTLED.
+     *
+     * Requirements:
+     *   • an open proposal exists and caller ≠ proposer
+     *   • expectedSellerAmount == proposed seller share
+     *   • state ∈ {FUNDED, DISPUTED}
+     *   • caller ∈ {buyer, seller}
+     *
+     * State after: SETTLED (terminal)
+     * Emits:       SettlementExecuted
+     */
+    private _acceptSettlement(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64         = calldata.readU64();
+        const expectedSeller: u256 = calldata.readU256();
+        const caller: Address      = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+        this._requireSettleable(orderId, caller);
+
+        const proposer = this._readSettleProposer(orderId);
+        if (this._isZeroAddress(proposer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: no open settlement proposal');
+        }
+        if (caller.equals(proposer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: proposer cannot accept own settlement');
+        }
+
+        const state: u8          = this._readState(orderId);
+        const seller             = this._readSeller(orderId);
+        const buyer              = this._readBuyer(orderId);
+        const locked: u256       = this._readLocked(orderId);
+        const sellerAmount: u256 = this._readSettleAmount(orderId);
+
+        if (!u256.eq(sellerAmount, expectedSeller)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: settlement terms changed');
+        }
+        if (u256.gt(sellerAmount, locked)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: seller share exceeds locked escrow');
+        }
+        const buyerAmount: u256 = SafeMath.sub(locked, sellerAmount);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        // [V4-U4]
+        this._transition(orderId, state, STATE_SETTLED);
+        this._writeLocked(orderId, u256.Zero);
+        this._clearSettlement(orderId);
+
+        // [V4-U3] [U6-3]
+        this._payoutSeller(orderId, seller, sellerAmount);
+        this._escrowRelease(this._readPaymentToken(orderId), buyer, buyerAmount);
+        this._releaseBond(orderId, seller);  // [U6-11]
+
+        this.emitEvent(new SettlementExecutedEvent(orderId, caller, sellerAmount, buyerAmount));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * createListing(unitPrice: u256, deliveryBlocks: u64, units: u32,
+     *               arbiter: Address, arbiterFeeBps: u16,
+     *               paymentToken: Address, termsHash: bytes32)
+     *               → listingId: u64   [U6-17]
+     *
+     * Seller offers `units` identical purchases of one service.
+     * Each purchase is its own order priced `unitPrice`, with a
+     * deadline `deliveryBlocks` after the block it is bought in.
+     * Arbiter, fee, token and terms apply to every purchase.
+     *
+     * The listingId is drawn from the order counter.  Buyers call
+     * acceptOrder / acceptOrderFor / fundOrder with it; each call
+     * spends a unit on a new purchase order, announced by
+     * ListingPurchased.  Order-only entry points reject the id.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit seller non-zero check.
+     *
+     * Requirements:
+     *   • unitPrice > 0, units > 0
+     *   • deliveryBlocks >= MIN_DEADLINE_BLOCKS
+     *   • arbiter and fee as for createOrder
+     *
+     * Emits: ListingCreated
+     */
+    private _createListing(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const unitPrice: u256 = calldata.readU256();
+        const dBlocks: u64    = calldata.readU64();
+        const units: u32      = calldata.readU32();
+        const opts            = new OrderOptions();
+        opts.arbiter          = calldata.readAddress();
+        opts.arbiterFeeBps    = calldata.readU16();
+        opts.paymentToken     = calldata.readAddress();
+        opts.termsHash        = calldata.readU256();  // bytes32
+        const seller: Address = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(seller);
+
+        if (u256.eq(unitPrice, u256.Zero) || units === 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: unit price and units must be > 0');
+        }
+        const minBlocks: u64 = this._paramU64(PARAM_MIN_DEADLINE);  // [U6-21]
+        if (dBlocks < minBlocks) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: deadline below minimum (' +
+                minBlocks.toString() + ' blocks)'
+            );
+        }
+        this._validateOrderOptions(seller, opts);
+
+        const listingId: u64 = this._nextOrderId();
+
+        this._writeIdWord(PTR_LST_SELLER,  listingId, seller.toU256());
+        this._writeIdWord(PTR_LST_PRICE,   listingId, unitPrice);
+        this._writeIdWord(PTR_LST_DBLOCKS, listingId, u256.fromU64(dBlocks));
+        this._writeIdWord(PTR_LST_UNITS,   listingId, u256.fromU32(units));
+        this._writeUnitsLeft(listingId, units);
+        this._writeIdWord(PTR_LST_OPEN,    listingId, u256.One);
+        this._writeIdWord(PTR_LST_TOKEN,   listingId, opts.paymentToken.toU256());
+        this._writeIdWord(PTR_LST_TERMS,   listingId, opts.termsHash);
+        this._writeIdWord(PTR_LST_ARBITER, listingId, opts.arbiter.toU256());
+        this._writeIdWord(PTR_LST_ARB_FEE, listingId, u256.fromU32(<u32>opts.arbiterFeeBps));
+
+        this.emitEvent(new ListingCreatedEvent(
+            listingId, seller, unitPrice, units, dBlocks, opts.paymentToken, opts.termsHash
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(listingId);
+        return out;
+    }
+
+    /**
+     * closeListing(listingId: u64) → bool   [U6-17]
+     *
+     * Seller stops selling.  Purchases already made are unaffected;
+     * units they return on cancellation are no longer restored.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Emits: ListingClosed
+     */
+    private _closeListing(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const listingId: u64 = calldata.readU64();
+
+        this._requireListingExists(listingId);
+
+        const seller: Address = this._readIdAddress(PTR_LST_SELLER, listingId);
+        this._requireCaller(seller);
+
+        if (!this._isListingOpen(listingId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: listing is closed');
+        }
+
+        this._writeIdWord(PTR_LST_OPEN, listingId, u256.Zero);
+
+        this.emitEvent(new ListingClosedEvent(listingId, seller, this._readUnitsLeft(listingId)));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * setOperator(operator: Address, mask: u32) → bool   [U6-20]
+     *
+     * Caller grants `operator` the PERM_* actions in `mask` on all
+     * of the caller's orders, replacing any earlier grant; mask 0
+     * revokes.  PERM_FUND lets the operator lock the caller's own
+     * funds, so grant it only to code you control.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] operator non-zero.
+     *
+     * Requirements:
+     *   • operator ≠ caller
+     *   • mask ⊆ PERM_ALL
+     *
+     * Emits: OperatorSet
+     */
+    private _setOperator(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const operator: Address = calldata.readAddress();
+        const mask: u32         = calldata.readU32();
+        const owner: Address    = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(operator);
+
+        if (operator.equals(owner)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: cannot appoint self as operator');
+        }
+        if ((mask & ~PERM_ALL) !== 0) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: unknown permission bits');
+        }
+
+        Blockchain.setStorageAt(
+            PTR_OPERATOR, this._operatorSub(owner, operator), u256.fromU32(mask)
+        );
+
+        this.emitEvent(new OperatorSetEvent(owner, operator, mask));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * transferSellerRole(orderId: u64, newSeller: Address) → bool
+     * transferBuyerRole (orderId: u64, newBuyer: Address)  → bool   [U6-19]
+     *
+     * The current holder of a role assigns it to another address
+     * without the counterparty's approval, in the states where the
+     * counterparty's position is unaffected:
+     *
+     *   seller → CREATED, ACCEPTED, FUNDED  (hand a job to a subcontractor)
+     *   buyer  → FUNDED                     (sell a funded claim on delivery)
+     *
+     * Never while DISPUTED — the arbiter decides between the
+     * parties that were there.  The new holder is appended to the
+     * seller / buyer index.  Open settlement [U6-4] and deadline
+     * extension [U6-15] proposals are cleared: they were made or
+     * addressed to the previous holder.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] newHolder non-zero.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • caller == current holder of the role
+     *   • newHolder ∉ {zero, caller, counterparty, arbiter}
+     *
+     * Emits: RoleTransferred
+     */
+    private _transferRole(calldata: Calldata, role: u8): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64       = calldata.readU64();
+        const newHolder: Address = calldata.readAddress();
+        const caller: Address    = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(newHolder);
+
+        const isSeller: bool        = role === ROLE_SELLER;
+        const holder: Address       = isSeller ? this._readSeller(orderId) : this._readBuyer(orderId);
+        const counterparty: Address = isSeller ? this._readBuyer(orderId)  : this._readSeller(orderId);
+
+        this._requireCaller(holder);
+
+        const state: u8 = this._readState(orderId);
+        const allowed: bool = isSeller
+            ? (state === STATE_CREATED || state === STATE_ACCEPTED || state === STATE_FUNDED)
+            : state === STATE_FUNDED;
+        if (!allowed) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: role not transferable in state ' + state.toString()
+            );
+        }
+
+        if (
+            newHolder.equals(holder) ||
+            newHolder.equals(counterparty) ||
+            newHolder.equals(this._readArbiter(orderId))
+        ) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: new holder must be a third party');
+        }
+
+        if (isSeller) {
+            this._writeSeller(orderId, newHolder);
+            this._appendIndex(PTR_SELLER_IDX_N, PTR_SELLER_IDX, newHolder.toU256(), orderId);
+        } else {
+            this._writeBuyer(orderId, newHolder);
+            this._appendIndex(PTR_BUYER_IDX_N, PTR_BUYER_IDX, newHolder.toU256(), orderId);
+        }
+        this._clearSettlement(orderId);  // [U6-4]
+        this._clearExtension(orderId);   // [U6-15]
+
+        this.emitEvent(new RoleTransferredEvent(orderId, role, holder, newHolder));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * createSubscription(seller: Address, pricePerPeriod: u256,
+     *                    periodBlocks: u64, periods: u16,
+     *                    arbiter: Address, arbiterFeeBps: u16,
+     *                    paymentToken: Address, termsHash: bytes32)
+     *                    → subscriptionId: u64   [U6-18]
+     *
+     * Buyer opens and pre-funds a retainer: `periods` consecutive
+     * periods of `periodBlocks` blocks starting at the current
+     * block, each worth `pricePerPeriod` to the seller.  The full
+     * pricePerPeriod × periods is locked at once.  The optional
+     * arbiter resolves disputed periods as for an order [U6-1];
+     * the dispute timeout in force now bounds how long a disputed
+     * period can wait for it.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit buyer and seller non-zero checks.
+     * [V4-U3] _escrowLock increments totalLocked.
+     *
+     * Requirements:
+     *   • seller ≠ buyer
+     *   • pricePerPeriod > 0
+     *   • periodBlocks >= MIN_DEADLINE_BLOCKS
+     *   • 1 <= periods <= MAX_SUB_PERIODS
+     *   • arbiter ∉ {buyer, seller}
+     *   • arbiterFeeBps <= MAX_ARBITER_FEE_BPS, and 0 if no arbiter
+     *   • buyer holds (or has approved) the total
+     *
+     * Emits: SubscriptionCreated
+     */
+    private _createSubscription(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const seller: Address    = calldata.readAddress();
+        const price: u256        = calldata.readU256();
+        const length: u64        = calldata.readU64();
+        const periods: u16       = calldata.readU16();
+        const arbiter: Address   = calldata.readAddress();
+        const arbiterFeeBps: u16 = calldata.readU16();
+        const token: Address     = calldata.readAddress();
+        const termsHash: u256    = calldata.readU256();  // bytes32
+        const buyer: Address     = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+        this._requireNonZeroAddress(seller);
+
+        if (seller.equals(buyer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: buyer cannot subscribe to self');
+        }
+        if (u256.eq(price, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: price must be > 0');
+        }
+        const minBlocks: u64 = this._paramU64(PARAM_MIN_DEADLINE);  // [U6-21]
+        if (length < minBlocks) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: period below minimum (' +
+                minBlocks.toString() + ' blocks)'
+            );
+        }
+        if (periods === 0 || periods > MAX_SUB_PERIODS) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: period count must be 1..' + MAX_SUB_PERIODS.toString()
+            );
+        }
+        // [U6-1]
+        if (this._isZeroAddress(arbiter)) {
+            if (arbiterFeeBps !== 0) {
+                this._unlock();
+                throw new Revert('ServiceMarketplace: arbiter fee set without an arbiter');
+            }
+        } else if (arbiter.equals(seller) || arbiter.equals(buyer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: arbiter must be a third party');
+        }
+        if (arbiterFeeBps > MAX_ARBITER_FEE_BPS) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: arbiter fee above maximum (' +
+                MAX_ARBITER_FEE_BPS.toString() + ' bps)'
+            );
+        }
+        // [U6-5]
+        if (token.equals(Blockchain.contractAddress)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: use the zero address for native mESC');
+        }
+
+        // [U6-24]
+        if (this._breakerGate(token)) {
+            this._unlock();
+            return this._trippedReply(SZ_U64);
+        }
+
+        const total: u256 = SafeMath.mul(price, u256.fromU32(<u32>periods));
+        const start: u64  = this._currentBlock();
+        const subId: u64  = this._nextSubId();
+
+        this._writeIdWord(PTR_SUB_BUYER,  subId, buyer.toU256());
+        this._writeIdWord(PTR_SUB_SELLER, subId, seller.toU256());
+        this._writeIdWord(PTR_SUB_PRICE,  subId, price);
+        this._writeIdWord(PTR_SUB_PERIOD, subId, u256.fromU64(length));
+        this._writeIdWord(PTR_SUB_START,  subId, u256.fromU64(start));
+        this._writeIdWord(PTR_SUB_FUNDED, subId, u256.fromU32(<u32>periods));
+        this._writeIdWord(PTR_SUB_END,    subId, u256.fromU32(<u32>periods));
+        this._writeIdWord(PTR_SUB_TOKEN,  subId, token.toU256());
+        this._writeIdWord(PTR_SUB_TERMS,  subId, termsHash);
+        this._writeIdWord(PTR_SUB_LOCKED, subId, total);
+        this._writeIdWord(PTR_SUB_ARBITER, subId, arbiter.toU256());
+        this._writeIdWord(PTR_SUB_ARB_FEE, subId, u256.fromU32(<u32>arbiterFeeBps));
+        this._writeIdWord(
+            PTR_SUB_TIMEOUT, subId, u256.fromU64(this._paramU64(PARAM_DISPUTE_TIMEOUT))  // [U6-21]
+        );
+
+        // [V4-U3]
+        this._escrowLock(token, buyer, total);
+
+        this.emitEvent(new SubscriptionCreatedEvent(
+            subId, buyer, seller, price, length, periods, token, start
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(subId);
+        return out;
+    }
+
+    /**
+     * claimSubscriptionPeriod(subscriptionId: u64, period: u16) → bool   [U6-18]
+     *
+     * Seller collects one finished period: pricePerPeriod less
+     * PROTOCOL_FEE_BPS, the fee accruing to the treasury exactly as
+     * for an order payout.  Periods may be claimed in any order;
+     * a disputed period waits for its resolution instead.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U3] totalLocked drops by pricePerPeriod.
+     *
+     * Requirements:
+     *   • caller == seller
+     *   • period < active period count
+     *   • period has ended: block >= start + (period + 1) × periodBlocks
+     *   • period neither claimed nor disputed
+     *
+     * Emits: SubscriptionClaimed (+ ProtocolFeeAccrued)
+     */
+    private _claimSubscriptionPeriod(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const subId: u64  = calldata.readU64();
+        const period: u16 = calldata.readU16();
+
+        this._requireSubExists(subId);
+
+        const seller: Address = this._readIdAddress(PTR_SUB_SELLER, subId);
+        this._requireCaller(seller);
+
+        if (period >= <u16>this._readIdWord(PTR_SUB_END, subId).lo1) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period is not part of the subscription');
+        }
+        if (this._currentSubPeriod(subId) <= <u64>period) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period has not ended yet');
+        }
+        if (
+            this._hasPeriodBit(PTR_SUB_CLAIMED, subId, period) ||
+            this._hasPeriodBit(PTR_SUB_DISPUTED, subId, period)
+        ) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period already settled');
+        }
+
+        const price: u256 = this._readIdWord(PTR_SUB_PRICE, subId);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._setPeriodBit(PTR_SUB_CLAIMED, subId, period);
+        this._debitSub(subId, price);
+
+        // [V4-U3] [U6-3]
+        const net: u256 = this._payoutSubSeller(subId, seller, price);
+
+        this.emitEvent(new SubscriptionClaimedEvent(
+            subId, period, seller, net, SafeMath.sub(price, net)
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * disputeSubscriptionPeriod(subscriptionId: u64, period: u16) → bool   [U6-18]
+     *
+     * Buyer rejects the running period.  Its price stays locked
+     * and the seller can no longer claim it: the arbiter splits
+     * it via resolveSubscriptionPeriod, or the buyer reclaims it
+     * via refundSubscriptionPeriod once the dispute timeout has
+     * run — the same trust model as a disputed order.  Only the
+     * running period can be disputed, so a finished undisputed
+     * period is always the seller's to claim.  A seller facing
+     * repeated disputes can stop the subscription.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Requirements:
+     *   • caller == buyer
+     *   • period == the running period, and < active period count
+     *   • period not already disputed
+     *
+     * Emits: SubscriptionDisputed
+     */
+    private _disputeSubscriptionPeriod(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const subId: u64  = calldata.readU64();
+        const period: u16 = calldata.readU16();
+
+        this._requireSubExists(subId);
+
+        const buyer: Address = this._readIdAddress(PTR_SUB_BUYER, subId);
+        this._requireCaller(buyer);
+
+        if (period >= <u16>this._readIdWord(PTR_SUB_END, subId).lo1) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period is not part of the subscription');
+        }
+        if (this._currentSubPeriod(subId) !== <u64>period) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only the running period can be disputed');
+        }
+        if (this._hasPeriodBit(PTR_SUB_DISPUTED, subId, period)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period already disputed');
+        }
+
+        this._setPeriodBit(PTR_SUB_DISPUTED, subId, period);
+        this._writePeriodDisputedAt(subId, period, this._currentBlock());
+
+        this.emitEvent(new SubscriptionDisputedEvent(
+            subId, period, buyer, this._readIdWord(PTR_SUB_PRICE, subId)
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * resolveSubscriptionPeriod(subscriptionId: u64, period: u16,
+     *                           sellerAmount: u256) → bool   [U6-18]
+     *
+     * The subscription's arbiter splits a held period exactly as
+     * resolveDispute splits an order [U6-1]:
+     *
+     *   arbiterFee   = pricePerPeriod × arbiterFeeBps / 10 000
+     *   sellerAmount = as supplied by the arbiter
+     *   buyerAmount  = pricePerPeriod − arbiterFee − sellerAmount
+     *
+     * [U6-3] The seller leg carries the protocol fee.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U3] totalLocked drops by pricePerPeriod.
+     *
+     * Requirements:
+     *   • subscription has an arbiter and caller == arbiter
+     *   • period disputed and not yet settled
+     *   • sellerAmount <= pricePerPeriod − arbiterFee
+     *
+     * Emits: SubscriptionResolved (+ ProtocolFeeAccrued)
+     */
+    private _resolveSubscriptionPeriod(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const subId: u64         = calldata.readU64();
+        const period: u16        = calldata.readU16();
+        const sellerAmount: u256 = calldata.readU256();
+
+        this._requireSubExists(subId);
+
+        const arbiter: Address = this._readIdAddress(PTR_SUB_ARBITER, subId);
+        if (this._isZeroAddress(arbiter)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: subscription has no arbiter');
+        }
+        this._requireCaller(arbiter);
+
+        if (!this._isPeriodHeld(subId, period)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period is not under dispute');
+        }
+
+        const token: Address = this._readIdAddress(PTR_SUB_TOKEN, subId);
+        const price: u256    = this._readIdWord(PTR_SUB_PRICE, subId);
+        const fee: u256      = this._bpsOf(
+            price, <u16>this._readIdWord(PTR_SUB_ARB_FEE, subId).lo1
+        );
+        const distributable: u256 = SafeMath.sub(price, fee);
+
+        if (u256.gt(sellerAmount, distributable)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: seller share exceeds distributable escrow');
+        }
+        const buyerAmount: u256 = SafeMath.sub(distributable, sellerAmount);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._setPeriodBit(PTR_SUB_CLAIMED, subId, period);
+        this._debitSub(subId, price);
+
+        // [V4-U3] Zero legs are no-ops inside _escrowRelease.
+        this._payoutSubSeller(subId, this._readIdAddress(PTR_SUB_SELLER, subId), sellerAmount);
+        this._escrowRelease(token, this._readIdAddress(PTR_SUB_BUYER, subId), buyerAmount);
+        this._escrowRelease(token, arbiter, fee);
+
+        this.emitEvent(new SubscriptionResolvedEvent(
+            subId, period, arbiter, sellerAmount, buyerAmount, fee
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * refundSubscriptionPeriod(subscriptionId: u64, period: u16) → bool   [U6-18]
+     *
+     * Fallback for an unresponsive (or absent) arbiter: once the
+     * dispute timeout has run from the dispute, the buyer reclaims
+     * the held period in full — the subscription counterpart of
+     * the DISPUTED force-refund through cancelOrder.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U3] totalLocked drops by pricePerPeriod.
+     *
+     * Requirements:
+     *   • caller == buyer
+     *   • period disputed and not yet settled
+     *   • block >= disputedAt + dispute timeout
+     *
+     * Emits: SubscriptionResolved
+     */
+    private _refundSubscriptionPeriod(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const subId: u64  = calldata.readU64();
+        const period: u16 = calldata.readU16();
+
+        this._requireSubExists(subId);
+
+        const buyer: Address = this._readIdAddress(PTR_SUB_BUYER, subId);
+        this._requireCaller(buyer);
+
+        if (!this._isPeriodHeld(subId, period)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: period is not under dispute');
+        }
+        if (this._currentBlock() < this._periodRefundAt(subId, period)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: dispute timeout has not elapsed');
+        }
+
+        const price: u256 = this._readIdWord(PTR_SUB_PRICE, subId);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._setPeriodBit(PTR_SUB_CLAIMED, subId, period);
+        this._debitSub(subId, price);
+
+        // [V4-U3]
+        this._escrowRelease(this._readIdAddress(PTR_SUB_TOKEN, subId), buyer, price);
+
+        this.emitEvent(new SubscriptionResolvedEvent(
+            subId, period, buyer, u256.Zero, price, u256.Zero
+        ));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * cancelSubscription(subscriptionId: u64) → bool   [U6-18]
+     *
+     * Buyer or seller stops the subscription after the running
+     * period.  Periods that have not started are refunded to the
+     * buyer; the running period and finished unclaimed ones can
+     * still be claimed (or, while running, disputed), and held
+     * periods still resolve.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U3] totalLocked drops by the refund.
+     *
+     * Requirements:
+     *   • caller ∈ {buyer, seller}
+     *   • at least one period has not started yet
+     *
+     * Emits: SubscriptionCancelled
+     */
+    private _cancelSubscription(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const subId: u64      = calldata.readU64();
+        const caller: Address = Blockchain.sender;
+
+        this._requireSubExists(subId);
+
+        const buyer: Address = this._readIdAddress(PTR_SUB_BUYER, subId);
+        if (!caller.equals(buyer) && !caller.equals(this._readIdAddress(PTR_SUB_SELLER, subId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only buyer or seller may cancel a subscription');
+        }
+
+        const end: u64     = this._readIdWord(PTR_SUB_END, subId).lo1;
+        const newEnd: u64  = this._currentSubPeriod(subId) + 1;
+        if (newEnd >= end) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: no future periods left to cancel');
+        }
+
+        const refund: u256 = SafeMath.mul(
+            this._readIdWord(PTR_SUB_PRICE, subId), u256.fromU64(end - newEnd)
+        );
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._writeIdWord(PTR_SUB_END, subId, u256.fromU64(newEnd));
+        this._debitSub(subId, refund);
+
+        // [V4-U3]
+        this._escrowRelease(this._readIdAddress(PTR_SUB_TOKEN, subId), buyer, refund);
+
+        this.emitEvent(new SubscriptionCancelledEvent(subId, caller, <u16>newEnd, refund));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * [U6-15] Moves the order deadline to `newDeadline` and every
+     * unreleased milestone deadline by the same delta, then clears
+     * any open extension proposal.  Callers checked newDeadline >
+     * current deadline; milestone deadlines never exceed the order
+     * deadline, so the shifted values cannot overflow.
+     *
+     * Emits: DeadlineExtended
+     */
+    private _applyDeadlineExtension(orderId: u64, approver: Address, newDeadline: u64): void {
+        const oldDeadline: u64 = this._readDeadline(orderId);
+        const delta: u64       = newDeadline - oldDeadline;
+
+        this._writeDeadline(orderId, newDeadline);
+
+        // [U6-2]
+        const count: u8 = this._readMilestoneCount(orderId);
+        for (let i: u8 = this._readMilestonesReleased(orderId); i < count; i++) {
+            this._writeMilestoneDeadline(orderId, i, this._readMilestoneDeadline(orderId, i) + delta);
+        }
+
+        this._clearExtension(orderId);
+
+        this.emitEvent(new DeadlineExtendedEvent(orderId, approver, oldDeadline, newDeadline));
+    }
+
+    /**
+     * proposeDeadlineExtension(orderId: u64, newDeadline: u64) → bool   [U6-15]
+     *
+     * `newDeadline` is an absolute block height later than the
+     * current deadline.
+     *
+     *   CREATED            → seller only; applied immediately.
+     *   ACCEPTED | FUNDED  → buyer or seller; recorded as the open
+     *                        proposal (replacing any earlier one) for
+     *                        the counterparty to approve.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • newDeadline > deadline
+     *   • newDeadline >= currentBlock + MIN_DEADLINE_BLOCKS
+     *
+     * Emits: DeadlineExtended (CREATED) or DeadlineExtensionProposed
+     */
+    private _proposeDeadlineExtension(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64     = calldata.readU64();
+        const newDeadline: u64 = calldata.readU64();
+        const caller: Address  = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        if (newDeadline <= this._readDeadline(orderId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: new deadline must be later than the current one');
+        }
+        const minBlocks: u64 = this._orderParam(orderId, PARAM_MIN_DEADLINE);  // [U6-21]
+        if (newDeadline < this._absoluteDeadline(minBlocks)) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: deadline below minimum (' +
+                minBlocks.toString() + ' blocks)'
             );
         }
-        // Guard (2): register underflow.
-        if (u256.lt(totalLocked, amount)) {
+
+        const state: u8 = this._readState(orderId);
+
+        if (state === STATE_CREATED) {
+            this._requireCaller(this._readSeller(orderId));
+            this._applyDeadlineExtension(orderId, caller, newDeadline);
+        } else if (state === STATE_ACCEPTED || state === STATE_FUNDED) {
+            if (!caller.equals(this._readBuyer(orderId)) && !caller.equals(this._readSeller(orderId))) {
+                this._unlock();
+                throw new Revert('ServiceMarketplace: only buyer or seller may propose an extension');
+            }
+            this._writeExtension(orderId, caller, newDeadline);
+            this.emitEvent(new DeadlineExtensionProposedEvent(orderId, caller, newDeadline));
+        } else {
+            this._unlock();
             throw new Revert(
-                'ServiceMarketplace: CRITICAL — release amount exceeds totalLocked'
+                'ServiceMarketplace: deadline cannot be extended in state ' + state.toString()
+            );
+        }
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * approveDeadlineExtension(orderId: u64) → bool   [U6-15]
+     *
+     * The counterparty of the open proposal applies it.
+     *
+     * [U5-3] Reentrancy guard.
+     * [V4-U1] Existence guard.
+     *
+     * Requirements:
+     *   • an open proposal exists and caller ≠ proposer
+     *   • state ∈ {ACCEPTED, FUNDED}
+     *   • caller ∈ {buyer, seller}
+     *
+     * Emits: DeadlineExtended
+     */
+    private _approveDeadlineExtension(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const orderId: u64    = calldata.readU64();
+        const caller: Address = Blockchain.sender;
+
+        // [V4-U1]
+        this._requireOrderExists(orderId);
+
+        const proposer: Address = this._readExtProposer(orderId);
+        if (this._isZeroAddress(proposer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: no open deadline extension');
+        }
+        if (caller.equals(proposer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: proposer cannot approve own extension');
+        }
+
+        const state: u8 = this._readState(orderId);
+        if (state !== STATE_ACCEPTED && state !== STATE_FUNDED) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: deadline cannot be extended in state ' + state.toString()
             );
         }
-        // Guard (3): direct sufficiency.
-        if (u256.lt(contractBal, amount)) {
+        if (!caller.equals(this._readBuyer(orderId)) && !caller.equals(this._readSeller(orderId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only buyer or seller may approve an extension');
+        }
+
+        this._applyDeadlineExtension(orderId, caller, this._readExtDeadline(orderId));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * createRequest(budget: u256, deadline: u64, arbiter: Address,
+     *               arbiterFeeBps: u16, paymentToken: Address,
+     *               termsHash: bytes32) → requestId: u64   [U6-13]
+     *
+     * Buyer posts a job for sellers to bid on.  `deadline` is the
+     * absolute block by which delivery is needed; every bid must
+     * promise delivery no later than that.  Arbiter, fee, token and
+     * terms carry over unchanged to the order selectBid creates.
+     * Nothing is escrowed until a bid is selected.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Explicit buyer non-zero check.
+     *
+     * Requirements:
+     *   • budget > 0
+     *   • deadline >= currentBlock + MIN_DEADLINE_BLOCKS
+     *   • arbiter ≠ buyer; arbiterFeeBps as for createOrder
+     *
+     * State after: request OPEN
+     * Emits:       RequestCreated
+     */
+    private _createRequest(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const budget: u256       = calldata.readU256();
+        const deadline: u64      = calldata.readU64();
+        const arbiter: Address   = calldata.readAddress();
+        const arbiterFeeBps: u16 = calldata.readU16();
+        const token: Address     = calldata.readAddress();
+        const termsHash: u256    = calldata.readU256();  // bytes32
+        const buyer: Address     = Blockchain.sender;
+
+        // [U5-4]
+        this._requireNonZeroAddress(buyer);
+
+        if (u256.eq(budget, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: budget must be > 0');
+        }
+        const minBlocks: u64 = this._paramU64(PARAM_MIN_DEADLINE);  // [U6-21]
+        if (deadline < this._absoluteDeadline(minBlocks)) {
+            this._unlock();
             throw new Revert(
-                'ServiceMarketplace: CRITICAL — contract balance insufficient for release'
+                'ServiceMarketplace: request deadline below minimum (' +
+                minBlocks.toString() + ' blocks)'
             );
         }
+        if (arbiter.equals(buyer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: buyer cannot arbitrate own request');
+        }
+
+        // Same option rules as a listing; the seller is not known
+        // yet, so it is re-checked against the winning bidder.
+        const opts = new OrderOptions();
+        opts.arbiter       = arbiter;
+        opts.arbiterFeeBps = arbiterFeeBps;
+        opts.paymentToken  = token;
+        opts.termsHash     = termsHash;
+        this._validateOrderOptions(buyer, opts);
+
+        const requestId: u64 = this._nextRequestId();
+
+        this._writeIdWord(PTR_REQ_BUYER,    requestId, buyer.toU256());
+        this._writeIdWord(PTR_REQ_BUDGET,   requestId, budget);
+        this._writeIdWord(PTR_REQ_DEADLINE, requestId, u256.fromU64(deadline));
+        this._writeIdWord(PTR_REQ_TOKEN,    requestId, token.toU256());
+        this._writeIdWord(PTR_REQ_TERMS,    requestId, termsHash);
+        this._writeIdWord(PTR_REQ_ARBITER,  requestId, arbiter.toU256());
+        this._writeIdWord(PTR_REQ_ARB_FEE,  requestId, u256.fromU32(<u32>arbiterFeeBps));
+        this._writeRequestState(requestId, REQUEST_OPEN);
+
+        this.emitEvent(new RequestCreatedEvent(requestId, buyer, budget, deadline, token, termsHash));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(requestId);
+        return out;
+    }
+
+    /**
+     * submitBid(requestId: u64, price: u256, deadline: u64) → bidId: u32   [U6-13]
+     *
+     * Seller offers to fill an OPEN request for `price`, delivering
+     * by the absolute block `deadline`.  Bids are binding: there is
+     * no withdrawal, and a selected bid becomes an order the seller
+     * can still cancel with a refund like any other.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Requirements:
+     *   • request OPEN and its deadline not passed
+     *   • caller ∉ {buyer, arbiter}, non-zero
+     *   • 0 < price <= budget
+     *   • currentBlock + MIN_DEADLINE_BLOCKS <= deadline <= request deadline
+     *
+     * Emits: BidSubmitted
+     */
+    private _submitBid(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const requestId: u64  = calldata.readU64();
+        const price: u256     = calldata.readU256();
+        const deadline: u64   = calldata.readU64();
+        const seller: Address = Blockchain.sender;
+
+        this._requireRequestExists(requestId);
+
+        // [U5-4]
+        this._requireNonZeroAddress(seller);
+
+        if (this._readRequestState(requestId) !== REQUEST_OPEN) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: request is not open for bids');
+        }
+        if (
+            seller.equals(this._readIdAddress(PTR_REQ_BUYER, requestId)) ||
+            seller.equals(this._readIdAddress(PTR_REQ_ARBITER, requestId))
+        ) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: buyer or arbiter cannot bid');
+        }
+        if (u256.eq(price, u256.Zero) || u256.gt(price, this._readIdWord(PTR_REQ_BUDGET, requestId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: bid price must be within 1..budget');
+        }
+        if (
+            deadline < this._absoluteDeadline(this._paramU64(PARAM_MIN_DEADLINE)) ||
+            deadline > this._readIdWord(PTR_REQ_DEADLINE, requestId).lo1
+        ) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: bid deadline outside the request window');
+        }
+
+        const bidId: u32 = this._readBidCount(requestId);
+        if (bidId === u32.MAX_VALUE) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: bid count overflow');
+        }
+
+        const sub: u256 = this._bidSub(requestId, bidId);
+        Blockchain.setStorageAt(PTR_BID_SELLER,   sub, seller.toU256());
+        Blockchain.setStorageAt(PTR_BID_PRICE,    sub, price);
+        Blockchain.setStorageAt(PTR_BID_DEADLINE, sub, u256.fromU64(deadline));
+        this._writeIdWord(PTR_BID_N, requestId, u256.fromU32(bidId + 1));
+
+        this.emitEvent(new BidSubmittedEvent(requestId, bidId, seller, price, deadline));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U32);
+        out.writeU32(bidId);
+        return out;
+    }
+
+    /**
+     * selectBid(requestId: u64, bidId: u32, fund: bool) → orderId: u64   [U6-13]
+     *
+     * Buyer picks a bid.  The bid becomes an ordinary order —
+     * seller = bidder, price and deadline from the bid, options
+     * from the request, the buyer as its only designated buyer
+     * [U6-12] — which is immediately ACCEPTED by the buyer.  With
+     * `fund` the price is also locked in this call and the order
+     * leaves FUNDED.  The usual OrderCreated / OrderAccepted /
+     * OrderFunded events are emitted.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Requirements:
+     *   • request OPEN; caller == request buyer
+     *   • bidId < bid count
+     *   • bid deadline still >= currentBlock + MIN_DEADLINE_BLOCKS
+     *   • fund: buyer holds (or has approved) the bid price
+     *
+     * State after: request FILLED; order ACCEPTED or FUNDED
+     * Emits:       OrderCreated, OrderAccepted, [OrderFunded], BidSelected
+     */
+    private _selectBid(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const requestId: u64  = calldata.readU64();
+        const bidId: u32      = calldata.readU32();
+        const fund: bool      = calldata.readBoolean();
+        const caller: Address = Blockchain.sender;
+
+        this._requireRequestExists(requestId);
+
+        if (this._readRequestState(requestId) !== REQUEST_OPEN) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: request is not open');
+        }
+        const buyer: Address = this._readIdAddress(PTR_REQ_BUYER, requestId);
+        if (!caller.equals(buyer)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only the request buyer may select a bid');
+        }
+        if (bidId >= this._readBidCount(requestId)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: bid does not exist');
+        }
+
+        const deadline: u64 = this._readBidDeadline(requestId, bidId);
+        if (deadline < this._absoluteDeadline(this._paramU64(PARAM_MIN_DEADLINE))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: bid deadline is too close to deliver');
+        }
+
+        const opts = new OrderOptions();
+        opts.arbiter       = this._readIdAddress(PTR_REQ_ARBITER, requestId);
+        opts.arbiterFeeBps = <u16>this._readIdWord(PTR_REQ_ARB_FEE, requestId).lo1;
+        opts.paymentToken  = this._readIdAddress(PTR_REQ_TOKEN, requestId);
+        opts.termsHash     = this._readIdWord(PTR_REQ_TERMS, requestId);
+        opts.allowedBuyers.push(buyer);
+
+        // [U6-24]
+        if (this._breakerGate(opts.paymentToken)) {
+            this._unlock();
+            return this._trippedReply(SZ_U64);
+        }
+
+        // Request closed before the order exists (CEI).
+        this._writeRequestState(requestId, REQUEST_FILLED);
+
+        const orderId: u64 = this._initOrder(
+            this._readBidSeller(requestId, bidId),
+            this._readBidPrice(requestId, bidId),
+            deadline,
+            opts
+        );
+        this._writeIdWord(PTR_REQ_ORDER, requestId, u256.fromU64(orderId));
+
+        this._registerBuyer(orderId, buyer);
+        if (fund) {
+            this._lockPayment(orderId, buyer);
+        }
+
+        this.emitEvent(new BidSelectedEvent(requestId, bidId, orderId));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U64);
+        out.writeU64(orderId);
+        return out;
+    }
+
+    /**
+     * cancelRequest(requestId: u64) → bool   [U6-13]
+     *
+     * Buyer withdraws an OPEN request.  Nothing is escrowed by a
+     * request, so there is nothing to refund.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * State after: request CANCELLED
+     * Emits:       RequestCancelled
+     */
+    private _cancelRequest(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const requestId: u64  = calldata.readU64();
+        const caller: Address = Blockchain.sender;
+
+        this._requireRequestExists(requestId);
+
+        if (this._readRequestState(requestId) !== REQUEST_OPEN) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: request is not open');
+        }
+        if (!caller.equals(this._readIdAddress(PTR_REQ_BUYER, requestId))) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only the request buyer may cancel it');
+        }
+
+        this._writeRequestState(requestId, REQUEST_CANCELLED);
+
+        this.emitEvent(new RequestCancelledEvent(requestId, caller));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * sweepExcess(token: Address) → bool   [U5-2]
+     *
+     * Transfers any contract balance of `token` above
+     * totalLocked + feesAccrued to the treasury.
+     * [U6-5] token = zero address for native mESC.
+     *
+     * This handles excess that can accumulate from direct token
+     * transfers to the contract address.
+     *
+     * Design properties:
+     *   • Permissionless trigger, fixed recipient — [U6-3] the
+     *     excess always goes to the treasury, never to the caller,
+     *     so there is nothing to front-run.
+     *   • Cannot touch locked funds, accrued fees or [U6-21] vote
+     *     weight — excess is (escrowBalance − totalLocked −
+     *     feesAccrued), so all three are structurally unreachable.
+     *   • No-op when excess == 0.
+     *   • [U5-3] Reentrancy guard.
+     *
+     * Emits: ExcessSwept (only if excess > 0)
+     */
+    private _sweepExcess(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const token: Address = calldata.readAddress();   // [U6-5]
+        const recipient      = this._readTreasury();     // [U6-3]
+        const contractBal    = this._escrowBalanceOf(token);  // [U6-21]
+        const reserved       = SafeMath.add(
+            this._readTotalLocked(token),
+            this._readFeesAccrued(token)
+        );
+
+        // [U5-4]
+        this._requireNonZeroAddress(recipient);
+
+        if (u256.gt(contractBal, reserved)) {
+            const excess: u256 = SafeMath.sub(contractBal, reserved);
+
+            // Note: sweepExcess does NOT affect totalLocked or
+            // feesAccrued because excess by definition is the
+            // portion of contractBalance accounted for by neither.
+            // Decrementing either register here would corrupt the
+            // accounting for active orders or the treasury.
+            this._transferOut(token, recipient, excess);
+
+            this.emitEvent(new ExcessSweptEvent(recipient, excess, token));
+        }
 
-        const recipientBal: u256 = this.balanceOfMap.get(recipient);
+        this._unlock();
 
-        const newContract:  u256 = SafeMath.sub(contractBal,  amount);
-        const newRecipient: u256 = SafeMath.add(recipientBal, amount);
-        const newTotal:     u256 = SafeMath.sub(totalLocked,  amount);
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
 
-        // All writes after all checks (Checks-Effects-Interactions).
-        this.balanceOfMap.set(contractAddr, newContract);
-        this.balanceOfMap.set(recipient,    newRecipient);
-        this._writeTotalLocked(newTotal);
+    /**
+     * withdrawFees(token: Address) → amount: u256   [U6-3]
+     *
+     * Pays every accrued protocol fee in `token` to the treasury
+     * fixed in onDeployment.  Anyone may trigger it; the recipient
+     * is not selectable, so the call can only ever benefit the
+     * treasury.  [U6-5] token = zero address for native mESC.
+     *
+     * Balance model:
+     *   contract balance     -= feesAccrued[token]
+     *   treasury balance     += feesAccrued[token]
+     *   feesAccrued[token]    = 0
+     *
+     * [U6-24] A shortfall trips the breaker as in _escrowRelease;
+     * once `token` is frozen the treasury is paid its pro-rata
+     * share, like every order, and returns that amount.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Non-zero treasury check.
+     *
+     * Emits: FeesWithdrawn (only if feesAccrued > 0), EscrowFrozen (on trip)
+     */
+    private _withdrawFees(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const token: Address = calldata.readAddress();   // [U6-5]
+        const treasury       = this._readTreasury();
+        const fees: u256     = this._readFeesAccrued(token);
+        let paid: u256       = fees;
+
+        // [U5-4]
+        this._requireNonZeroAddress(treasury);
+
+        if (!u256.eq(fees, u256.Zero)) {
+            // [U6-24] totalLocked must stay fully backed after the
+            // payout; if it is not, freeze and pay the backed share.
+            this._tripIfBroken(token);
+            if (this._isFrozen(token)) {
+                paid = this._proRataShare(
+                    fees,
+                    this._escrowBalanceOf(token),  // [U6-21]
+                    SafeMath.add(this._readTotalLocked(token), fees)
+                );
+            }
+
+            // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────
+            this._writeFeesAccrued(token, u256.Zero);
+            this._transferOut(token, treasury, paid);
+
+            this.emitEvent(new FeesWithdrawnEvent(treasury, token, paid));
+        }
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_U256);
+        out.writeU256(paid);
+        return out;
     }
 
-    // ─────────────────────────────────────────────────────────
-    //  ENTRY POINTS
-    // ─────────────────────────────────────────────────────────
+    /**
+     * checkInvariant(token: Address) → bool healthy   [U6-24]
+     *
+     * Permissionless.  Trips the breaker for `token` (zero = native
+     * mESC) if its escrow is under-backed, without reverting, and
+     * reports whether the token is still live.  Keepers should call
+     * it whenever getTokenEscrowStats shows a shortfall.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Emits: EscrowFrozen (on trip)
+     */
+    private _checkInvariant(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const token: Address = calldata.readAddress();
+
+        this._tripIfBroken(token);
+        const healthy: bool = !this._isFrozen(token);
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(healthy);
+        return out;
+    }
 
     /**
-     * createOrder(price: u256, deadlineBlocks: u64) → orderId: u64
+     * emergencyWithdraw(orderId: u64) → bool   [U6-24]
      *
-     * Seller creates a new service listing.
-     * `deadlineBlocks` is relative; stored as absolute block height.
+     * Safe exit once the order's payment token is frozen.  Pays the
+     * buyer the backed share of the locked price and the seller the
+     * backed share of the bond, then cancels the order.  Shares use
+     * the same fraction for every order (see _proRataShare), and
+     * for every ordinary release through _escrowRelease — which is
+     * how subscriptions and disputed orders exit.  A DISPUTED
+     * order's escrow and bond stay held for resolveDispute, a
+     * settlement or the buyer's force-refund, so the bond is not
+     * handed to the seller before anyone has ruled.
      *
      * [U5-3] Reentrancy guard.
-     * [U5-4] Explicit seller non-zero check.
+     * [V4-U1] Existence check.
+     * [U6-20] Buyer, seller or a PERM_CANCEL operator of either.
      *
      * Requirements:
-     *   • caller is non-zero
-     *   • price > 0
-     *   • deadlineBlocks >= MIN_DEADLINE_BLOCKS
+     *   • payment token frozen
+     *   • state CREATED, ACCEPTED or FUNDED with escrow held
      *
-     * State after: CREATED
-     * Emits:       OrderCreated
+     * Emits: EmergencyWithdrawal
      */
-    private _createOrder(calldata: Calldata): BytesWriter {
+    private _emergencyWithdraw(calldata: Calldata): BytesWriter {
         // [U5-3]
         this._requireNotLocked();
         this._lock();
 
-        const price: u256     = calldata.readU256();
-        const dBlocks: u64    = calldata.readU64();
-        const seller: Address = Blockchain.sender;
+        const orderId: u64 = calldata.readU64();
 
-        // [U5-4]
-        this._requireNonZeroAddress(seller);
+        // [V4-U1]
+        this._requireOrderExists(orderId);
 
-        if (u256.eq(price, u256.Zero)) {
+        const token: Address = this._readPaymentToken(orderId);
+        if (!this._isFrozen(token)) {
             this._unlock();
-            throw new Revert('ServiceMarketplace: price must be > 0');
+            throw new Revert('ServiceMarketplace: escrow is not frozen');
         }
-        if (dBlocks < MIN_DEADLINE_BLOCKS) {
+
+        const state: u8 = this._readState(orderId);
+        if (state === STATE_DISPUTED) {
             this._unlock();
-            throw new Revert(
-                'ServiceMarketplace: deadline below minimum (' +
-                MIN_DEADLINE_BLOCKS.toString() + ' blocks)'
-            );
+            throw new Revert('ServiceMarketplace: disputed escrow is held for resolution');
+        }
+        if (state !== STATE_CREATED && state !== STATE_ACCEPTED && state !== STATE_FUNDED) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: order is closed');
         }
 
-        const orderId: u64 = this._nextOrderId();
-        const block: u64   = this._currentBlock();
+        const caller: Address = Blockchain.sender;
+        const seller: Address = this._readSeller(orderId);
+        const buyer: Address  = this._readBuyer(orderId);
+        if (
+            !this._actsFor(caller, seller, PERM_CANCEL) &&
+            !this._actsFor(caller, buyer, PERM_CANCEL)
+        ) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: only buyer or seller may withdraw');
+        }
 
-        if (block > u64.MAX_VALUE - dBlocks) {
+        const locked: u256 = this._readLocked(orderId);
+        const bond: u256   = this._readBond(orderId);
+        const claim: u256  = SafeMath.add(locked, bond);
+        if (u256.eq(claim, u256.Zero)) {
             this._unlock();
-            throw new Revert('ServiceMarketplace: deadline overflows u64');
+            throw new Revert('ServiceMarketplace: order holds no escrow');
         }
-        const deadlineAbs: u64 = block + dBlocks;
 
-        // Initialise all storage fields.  _writeState is used directly
-        // here because this is initialisation from scratch, not a
-        // transition from a prior persisted state.
-        this._writeSeller(orderId, seller);
-        this._writeBuyer(orderId, Address.fromU256(u256.Zero));
-        this._writePrice(orderId, price);
+        // Both shares from the same pre-payout fraction.
+        const totalLocked: u256 = this._readTotalLocked(token);
+        const balance: u256     = this._escrowBalanceOf(token);  // [U6-21]
+        const required: u256    = SafeMath.add(totalLocked, this._readFeesAccrued(token));
+        const buyerShare: u256  = this._proRataShare(locked, balance, required);
+        const sellerShare: u256 = this._proRataShare(bond, balance, required);
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        this._transition(orderId, state, STATE_CANCELLED);
         this._writeLocked(orderId, u256.Zero);
-        this._writeDeadline(orderId, deadlineAbs);
-        this._writeAcceptedAt(orderId, 0);   // [U5-1] zero = never accepted
-        this._writeState(orderId, STATE_CREATED);
+        this._writeBond(orderId, u256.Zero);
+        this._writeTotalLocked(token, SafeMath.sub(totalLocked, claim));
+
+        if (!u256.eq(buyerShare, u256.Zero)) {
+            this._requireNonZeroAddress(buyer);
+            this._transferOut(token, buyer, buyerShare);
+        }
+        if (!u256.eq(sellerShare, u256.Zero)) {
+            this._transferOut(token, seller, sellerShare);
+        }
+
+        this.emitEvent(new EmergencyWithdrawalEvent(orderId, buyer, buyerShare, seller, sellerShare));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    /**
+     * claimFaucet() → bool   [U5.1-1]
+     *
+     * Permissionless token faucet.  Mints FAUCET_AMOUNT to
+     * Blockchain.sender subject to three guards enforced in order:
+     *
+     *  (1) Sender must be non-zero.
+     *      Zero-address mints are structurally meaningless and
+     *      would silently burn supply against the cap.
+     *
+     *  (2) Cooldown: block.number - lastClaimBlock >= FAUCET_COOLDOWN
+     *      Prevents a single address from draining supply in rapid
+     *      succession.  First-ever claim always passes (lastClaim = 0).
+     *      Overflow-safe: block can never be less than lastClaim in
+     *      a valid chain, but we use saturating subtraction style via
+     *      explicit comparison to be defensive.
+     *
+     *  (3) Supply cap: totalSupply + FAUCET_AMOUNT <= maxSupply
+     *      Uses SafeMath.add() to detect overflow and compares against
+     *      the cap set at deployment [U6-22].  Guarantees the
+     *      max supply is structurally unreachable.
+     *
+     * On success:
+     *   • sender.balanceOfMap  += FAUCET_AMOUNT   (via this.mint)
+     *   • totalSupply          += FAUCET_AMOUNT   (tracked by OP-20 base)
+     *   • lastClaimBlock[sender] = currentBlock
+     *
+     * No owner check.  No admin.  No privileged mint.
+     * Escrow accounting (totalLocked) is not touched — faucet tokens
+     * go directly to the sender's wallet balance, not into escrow.
+     * [U6-21] Amount and cooldown are the governed parameters.
+     * [U6-22] Reverts outright if deployed with the faucet off.
+     *
+     * [U5-3] Reentrancy guard.
+     * [U5-4] Non-zero sender check.
+     *
+     * Emits: FaucetClaimed
+     */
+    private _claimFaucet(): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const sender: Address = Blockchain.sender;
+        const block: u64      = this._currentBlock();
+        const amount: u256    = this._readParam(PARAM_FAUCET_AMOUNT);    // [U6-21]
+        const cooldown: u64   = this._paramU64(PARAM_FAUCET_COOLDOWN);  // [U6-21]
+
+        // [U6-22]
+        if (!this._isFaucetEnabled()) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: faucet is disabled');
+        }
+
+        // Guard (1): [U5-4] sender must be non-zero.
+        this._requireNonZeroAddress(sender);
+
+        // Guard (2): cooldown per address.
+        const lastClaim: u64 = this._readLastClaimBlock(sender);
+        if (lastClaim !== 0) {
+            // Safe: block is always >= lastClaim in a valid chain;
+            // any node manipulation would cause the block comparison
+            // to fail the cooldown check — not underflow into wrong state.
+            if (block < lastClaim || block - lastClaim < cooldown) {
+                this._unlock();
+                throw new Revert(
+                    'ServiceMarketplace: faucet cooldown has not elapsed yet'
+                );
+            }
+        }
+
+        // Guard (3): max supply cap.
+        const maxSupply: u256    = this.maxSupply;  // [U6-22]
+        const currentSupply: u256 = this.totalSupply;
+        const newSupply: u256     = SafeMath.add(currentSupply, amount);
+
+        if (u256.gt(newSupply, maxSupply)) {
+            this._unlock();
+            throw new Revert(
+                'ServiceMarketplace: faucet would exceed max supply'
+            );
+        }
+
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        // Update cooldown clock before mint to prevent any
+        // hypothetical reentrancy re-entry claiming twice.
+        this._writeLastClaimBlock(sender, block);
+
+        // Mint FAUCET_AMOUNT directly to sender.
+        // this.mint() updates both balanceOfMap[sender] and totalSupply
+        // atomically inside the OP-20 base implementation.
+        // totalLocked is NOT modified — faucet tokens are not escrowed.
+        this.mint(sender, amount);
+
+        this.emitEvent(new FaucetClaimedEvent(sender, amount, block));
+
+        this._unlock();
+
+        const out = new BytesWriter(SZ_BOOL);
+        out.writeBoolean(true);
+        return out;
+    }
+
+    // ── [U6-21] Parameter governance ──────────────────────────
+
+    /**
+     * True if `value` is acceptable for `param`: non-zero (zero
+     * means "default" in storage), block counts ≤ MAX_PARAM_BLOCKS,
+     * the faucet amount ≤ MAX_FAUCET_AMOUNT and the faucet
+     * cooldown ≥ MIN_FAUCET_COOLDOWN.
+     */
+    private _validParamValue(param: u8, value: u256): bool {
+        if (u256.eq(value, u256.Zero)) return false;
+        if (param === PARAM_FAUCET_AMOUNT) {
+            return !u256.gt(value, MAX_FAUCET_AMOUNT);
+        }
+        if (param === PARAM_FAUCET_COOLDOWN && u256.lt(value, u256.fromU64(MIN_FAUCET_COOLDOWN))) {
+            return false;
+        }
+        return !u256.gt(value, u256.fromU64(MAX_PARAM_BLOCKS));
+    }
+
+    /** [U6-22] 0 < blocks ≤ MAX_PARAM_BLOCKS. */
+    @inline
+    private _validBlockCount(blocks: u64): bool {
+        return blocks !== 0 && blocks <= MAX_PARAM_BLOCKS;
+    }
+
+    /**
+     * Moves `amount` of the voter's mESC into the contract as vote
+     * weight.  Tracked in PTR_VOTES_LOCKED, never in totalLocked:
+     * vote weight is not escrow, so it neither counts towards the
+     * invariant nor waits on the breaker.
+     *
+     *   voter balance    -= amount
+     *   contract balance += amount
+     *   votesLocked      += amount
+     */
+    private _lockVoteWeight(voter: Address, amount: u256): void {
+        const contractAddr       = Blockchain.contractAddress;
+        const voterBal: u256     = this.balanceOfMap.get(voter);
+        const contractBal: u256  = this.balanceOfMap.get(contractAddr);
+
+        if (u256.lt(voterBal, amount)) {
+            throw new Revert('ServiceMarketplace: insufficient OP-20 balance for vote weight');
+        }
+
+        this.balanceOfMap.set(voter,        SafeMath.sub(voterBal,    amount));
+        this.balanceOfMap.set(contractAddr, SafeMath.add(contractBal, amount));
+        this._writeVotesLocked(SafeMath.add(this._readVotesLocked(), amount));
+    }
+
+    /** Inverse of _lockVoteWeight. */
+    private _releaseVoteWeight(voter: Address, amount: u256): void {
+        const votes: u256 = this._readVotesLocked();
+        if (u256.lt(votes, amount)) {
+            throw new Revert('ServiceMarketplace: CRITICAL — vote weight exceeds votesLocked');
+        }
+        const native = Address.fromU256(u256.Zero);
+        if (u256.lt(this._contractBalanceOf(native), amount)) {
+            throw new Revert('ServiceMarketplace: CRITICAL — contract balance insufficient for vote weight');
+        }
+
+        this._writeVotesLocked(SafeMath.sub(votes, amount));
+        this._transferOut(native, voter, amount);
+    }
+
+    /**
+     * Where `proposalId` stands at the current block.  Passing needs
+     * more weight for than against and at least GOV_QUORUM cast.
+     */
+    private _proposalStatus(proposalId: u64): u8 {
+        if (proposalId === 0 || proposalId > this._readProposalCount()) return PROPOSAL_NONE;
+        if (!u256.eq(this._readIdWord(PTR_PROP_DONE, proposalId), u256.Zero)) return PROPOSAL_EXECUTED;
+
+        const block: u64 = this._currentBlock();
+        const end: u64   = this._readIdWord(PTR_PROP_END, proposalId).lo1;
+        if (block < end) return PROPOSAL_VOTING;
+
+        const votesFor: u256     = this._readIdWord(PTR_PROP_FOR, proposalId);
+        const votesAgainst: u256 = this._readIdWord(PTR_PROP_AGAINST, proposalId);
+        if (
+            !u256.gt(votesFor, votesAgainst) ||
+            u256.lt(SafeMath.add(votesFor, votesAgainst), GOV_QUORUM)
+        ) {
+            return PROPOSAL_DEFEATED;
+        }
+
+        // end = creation block + GOV_VOTING_BLOCKS, far below
+        // u64.MAX_VALUE, so these sums cannot wrap.
+        if (block < end + GOV_TIMELOCK_BLOCKS) return PROPOSAL_QUEUED;
+        if (block < end + GOV_TIMELOCK_BLOCKS + GOV_EXECUTION_BLOCKS) return PROPOSAL_READY;
+        return PROPOSAL_EXPIRED;
+    }
+
+    /**
+     * createProposal(param: u8, value: u256) → u64 proposalId   [U6-21]
+     *
+     * Opens a GOV_VOTING_BLOCKS vote on setting `param` to `value`.
+     * Competing proposals for one parameter may coexist; the last
+     * one executed wins.
+     *
+     * [U5-3] Reentrancy guard.
+     *
+     * Requirements:
+     *   • param < PARAM_COUNT and value valid for it
+     *   • caller holds ≥ GOV_PROPOSAL_MIN mESC (unlocked balance)
+     *
+     * Emits: ProposalCreated
+     */
+    private _createProposal(calldata: Calldata): BytesWriter {
+        // [U5-3]
+        this._requireNotLocked();
+        this._lock();
+
+        const param: u8         = calldata.readU8();
+        const value: u256       = calldata.readU256();
+        const proposer: Address = Blockchain.sender;
+
+        if (param >= PARAM_COUNT) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: unknown parameter');
+        }
+        if (!this._validParamValue(param, value)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: parameter value out of range');
+        }
+        if (u256.lt(this.balanceOfMap.get(proposer), GOV_PROPOSAL_MIN)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: balance below proposal threshold');
+        }
+
+        const votingEnds: u64  = this._absoluteDeadline(GOV_VOTING_BLOCKS);
+        const proposalId: u64  = this._nextProposalId();
 
-        this.emitEvent(new OrderCreatedEvent(orderId, seller, price, deadlineAbs));
+        this._writeIdWord(PTR_PROP_PARAM, proposalId, u256.fromU32(<u32>param));
+        this._writeIdWord(PTR_PROP_VALUE, proposalId, value);
+        this._writeIdWord(PTR_PROP_BY,    proposalId, proposer.toU256());
+        this._writeIdWord(PTR_PROP_END,   proposalId, u256.fromU64(votingEnds));
+
+        this.emitEvent(new ProposalCreatedEvent(proposalId, proposer, param, value, votingEnds));
 
         this._unlock();
 
         const out = new BytesWriter(SZ_U64);
-        out.writeU64(orderId);
+        out.writeU64(proposalId);
         return out;
     }
 
     /**
-     * acceptOrder(orderId: u64) → bool
+     * castVote(proposalId: u64, support: bool, amount: u256) → bool   [U6-21]
      *
-     * Buyer registers intent.  Transitions CREATED → ACCEPTED.
-     * Records acceptedAt block for the funding timeout window.
+     * Locks `amount` of the caller's mESC into escrow as vote
+     * weight.  The lock stands in for a balance snapshot: tokens
+     * that voted cannot move to another address and vote again
+     * until the vote closes.  One vote per address per proposal.
      *
-     * [U5-1] Stores acceptedAt = currentBlock.
      * [U5-3] Reentrancy guard.
-     * [U5-4] Explicit buyer non-zero check.
-     * [V4-U1] Order existence guard.
-     * [V4-U4] _transition enforces CREATED → ACCEPTED atomically.
+     * The weight is held in PTR_VOTES_LOCKED, not totalLocked.
      *
      * Requirements:
-     *   • orderId exists
-     *   • state == CREATED
-     *   • deadline not expired
-     *   • caller ≠ seller
-     *   • caller is non-zero
+     *   • proposal VOTING
+     *   • caller has not voted on it
+     *   • amount > 0 and ≤ caller balance
      *
-     * State after: ACCEPTED
-     * Emits:       OrderAccepted
+     * Emits: VoteCast
      */
-    private _acceptOrder(calldata: Calldata): BytesWriter {
+    private _castVote(calldata: Calldata): BytesWriter {
         // [U5-3]
         this._requireNotLocked();
         this._lock();
 
-        const orderId: u64    = calldata.readU64();
-        const buyer: Address  = Blockchain.sender;
-
-        // [V4-U1]
-        this._requireOrderExists(orderId);
-
-        // [U5-4]
-        this._requireNonZeroAddress(buyer);
-
-        this._requireDeadlineNotExpired(orderId);
+        const proposalId: u64 = calldata.readU64();
+        const support: bool   = calldata.readBoolean();
+        const amount: u256    = calldata.readU256();
+        const voter: Address  = Blockchain.sender;
 
-        const seller = this._readSeller(orderId);
+        this._requireProposalExists(proposalId);
 
-        if (buyer.equals(seller)) {
+        if (this._proposalStatus(proposalId) !== PROPOSAL_VOTING) {
             this._unlock();
-            throw new Revert('ServiceMarketplace: seller cannot accept own order');
+            throw new Revert('ServiceMarketplace: voting is closed');
+        }
+        if (u256.eq(amount, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: vote weight must be > 0');
+        }
+        if (!u256.eq(this._readVoteLock(proposalId, voter), u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: already voted');
         }
 
-        const block: u64 = this._currentBlock();
-
-        // [V4-U4] CREATED → ACCEPTED.
-        this._transition(orderId, STATE_CREATED, STATE_ACCEPTED);
+        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
+        const tallyPtr: u16 = support ? PTR_PROP_FOR : PTR_PROP_AGAINST;
+        this._writeIdWord(tallyPtr, proposalId, SafeMath.add(this._readIdWord(tallyPtr, proposalId), amount));
+        this._writeVoteLock(proposalId, voter, amount);
 
-        // Persist buyer address and acceptedAt timestamp.
-        this._writeBuyer(orderId, buyer);
-        this._writeAcceptedAt(orderId, block); // [U5-1]
+        this._lockVoteWeight(voter, amount);
 
-        this.emitEvent(new OrderAcceptedEvent(orderId, buyer, block));
+        this.emitEvent(new VoteCastEvent(proposalId, voter, support, amount));
 
         this._unlock();
 
@@ -829,73 +6700,47 @@ export class ServiceMarketplace extends DeployableOP_20 {
     }
 
     /**
-     * fundOrder(orderId: u64) → bool
+     * withdrawVote(proposalId: u64) → bool   [U6-21]
      *
-     * Buyer locks the order price into contract escrow.
+     * Returns the caller's locked vote weight once voting has
+     * closed, whatever the outcome.  Tallies are not reduced.
+     * Vote weight is not escrow, so this works while mESC escrow
+     * is frozen [U6-24].
      *
      * [U5-3] Reentrancy guard.
-     * [V4-U1] Order existence guard.
-     * [V4-U2] Requires STATE_ACCEPTED — no buyer-address inspection.
-     * [V4-U3] _escrowLock increments totalLocked atomically.
-     * [V4-U4] _transition enforces ACCEPTED → FUNDED.
-     *
-     * Balance model:
-     *   buyer.balanceOfMap    -= price
-     *   contract.balanceOfMap += price
-     *   totalLocked           += price
      *
      * Requirements:
-     *   • orderId exists
-     *   • state == ACCEPTED
-     *   • caller == registered buyer
-     *   • deadline not expired
-     *   • accept timeout not exceeded (within ACCEPT_TIMEOUT_BLOCKS)
-     *   • buyer OP-20 balance >= price
+     *   • proposal no longer VOTING
+     *   • caller has weight locked on it
      *
-     * State after: FUNDED
-     * Emits:       OrderFunded
+     * Emits: VoteWithdrawn
      */
-    private _fundOrder(calldata: Calldata): BytesWriter {
+    private _withdrawVote(calldata: Calldata): BytesWriter {
         // [U5-3]
         this._requireNotLocked();
         this._lock();
 
-        const orderId: u64 = calldata.readU64();
-
-        // [V4-U1]
-        this._requireOrderExists(orderId);
-
-        this._requireDeadlineNotExpired(orderId);
-
-        const buyer = this._readBuyer(orderId);
-
-        // [U5-4]
-        this._requireNonZeroAddress(buyer);
-        this._requireCaller(buyer);
+        const proposalId: u64 = calldata.readU64();
+        const voter: Address  = Blockchain.sender;
 
-        // [U5-1] Buyer must fund within ACCEPT_TIMEOUT_BLOCKS.
-        const acceptedAt: u64 = this._readAcceptedAt(orderId);
-        const block: u64      = this._currentBlock();
-        const fundDeadline: u64 = (acceptedAt > u64.MAX_VALUE - ACCEPT_TIMEOUT_BLOCKS)
-            ? u64.MAX_VALUE
-            : acceptedAt + ACCEPT_TIMEOUT_BLOCKS;
+        this._requireProposalExists(proposalId);
 
-        if (block > fundDeadline) {
+        if (this._proposalStatus(proposalId) === PROPOSAL_VOTING) {
             this._unlock();
-            throw new Revert('ServiceMarketplace: accept timeout expired — buyer must re-accept');
+            throw new Revert('ServiceMarketplace: voting is still open');
+        }
+        const amount: u256 = this._readVoteLock(proposalId, voter);
+        if (u256.eq(amount, u256.Zero)) {
+            this._unlock();
+            throw new Revert('ServiceMarketplace: nothing to withdraw');
         }
-
-        const price = this._readPrice(orderId);
 
         // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
-        // [V4-U4] ACCEPTED → FUNDED.
-        this._transition(orderId, STATE_ACCEPTED, STATE_FUNDED);
-        this._writeLocked(orderId, price);
+        this._writeVoteLock(proposalId, voter, u256.Zero);
 
-        // [V4-U3] Lock — updates balanceOfMap AND totalLocked.
-        this._escrowLock(buyer, price);
+        this._releaseVoteWeight(voter, amount);
 
-        this.emitEvent(new OrderFundedEvent(orderId, buyer, price));
+        this.emitEvent(new VoteWithdrawnEvent(proposalId, voter, amount));
 
         this._unlock();
 
@@ -905,66 +6750,47 @@ export class ServiceMarketplace extends DeployableOP_20 {
     }
 
     /**
-     * confirmCompletion(orderId: u64) → bool
+     * executeProposal(proposalId: u64) → bool   [U6-21]
      *
-     * Buyer confirms off-chain service delivery.
-     * Releases escrowed funds to seller.
+     * Permissionless.  Applies a passed proposal once its timelock
+     * has elapsed.  Orders already created keep their snapshot;
+     * open requests, listings and subscriptions see the new value
+     * on their next action.
      *
      * [U5-3] Reentrancy guard.
-     * [U5-4] Seller non-zero check before release.
-     * [V4-U1] Order existence guard.
-     * [V4-U3] _escrowRelease decrements totalLocked atomically.
-     * [V4-U4] _transition enforces FUNDED → COMPLETED.
-     *
-     * Balance model:
-     *   contract.balanceOfMap -= locked
-     *   seller.balanceOfMap   += locked
-     *   totalLocked           -= locked
      *
      * Requirements:
-     *   • orderId exists
-     *   • state == FUNDED
-     *   • caller == buyer
-     *   (Confirmation is valid even after deadline — deadline gates
-     *    cancellation only, not confirmation.)
+     *   • proposal READY
      *
-     * State after: COMPLETED (terminal)
-     * Emits:       OrderCompleted
+     * Emits: ProposalExecuted
      */
-    private _confirmCompletion(calldata: Calldata): BytesWriter {
+    private _executeProposal(calldata: Calldata): BytesWriter {
         // [U5-3]
         this._requireNotLocked();
         this._lock();
 
-        const orderId: u64 = calldata.readU64();
-
-        // [V4-U1]
-        this._requireOrderExists(orderId);
-
-        const buyer  = this._readBuyer(orderId);
-        const seller = this._readSeller(orderId);
-
-        // [U5-4]
-        this._requireNonZeroAddress(buyer);
-        this._requireNonZeroAddress(seller);
+        const proposalId: u64 = calldata.readU64();
 
-        this._requireCaller(buyer);
+        this._requireProposalExists(proposalId);
 
-        const locked = this._readLocked(orderId);
-        if (u256.eq(locked, u256.Zero)) {
+        const status: u8 = this._proposalStatus(proposalId);
+        if (status !== PROPOSAL_READY) {
             this._unlock();
-            throw new Revert('ServiceMarketplace: invariant error — locked is zero in FUNDED state');
+            throw new Revert(
+                status === PROPOSAL_QUEUED
+                    ? 'ServiceMarketplace: proposal timelock has not elapsed'
+                    : 'ServiceMarketplace: proposal is not executable'
+            );
         }
 
-        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
-        // [V4-U4] FUNDED → COMPLETED committed before release.
-        this._transition(orderId, STATE_FUNDED, STATE_COMPLETED);
-        this._writeLocked(orderId, u256.Zero);
+        const param: u8      = <u8>(this._readIdWord(PTR_PROP_PARAM, proposalId).lo1 & 0xFF);
+        const value: u256    = this._readIdWord(PTR_PROP_VALUE, proposalId);
+        const oldValue: u256 = this._readParam(param);
 
-        // [V4-U3]
-        this._escrowRelease(seller, locked);
+        this._writeIdWord(PTR_PROP_DONE, proposalId, u256.One);
+        this._writeParam(param, value);
 
-        this.emitEvent(new OrderCompletedEvent(orderId, seller, locked));
+        this.emitEvent(new ProposalExecutedEvent(proposalId, param, oldValue, value));
 
         this._unlock();
 
@@ -973,430 +6799,671 @@ export class ServiceMarketplace extends DeployableOP_20 {
         return out;
     }
 
+    // ─────────────────────────────────────────────────────────
+    //  VIEW METHODS
+    // ─────────────────────────────────────────────────────────
+
     /**
-     * cancelOrder(orderId: u64) → bool
+     * getOrder(orderId: u64) → (264 + 20 × allowedCount)-byte encoded order
      *
-     * Multi-path cancellation function handling four distinct states.
-     * Each state has its own eligibility rules and refund routing.
-     *
-     * [U5-1] ACCEPTED state: cancellable after accept timeout.
-     * [U5-3] Reentrancy guard.
-     * [U5-4] Address non-zero checks before any escrow release.
-     * [V4-U1] Order existence guard.
-     * [V4-U3] _escrowRelease decrements totalLocked atomically.
-     * [V4-U4] _transition enforces each from→to atomically.
-     *
-     * ── Cancellation rules by state ──────────────────────────
-     *
-     *  CREATED  → seller or any party after deadline
-     *             No funds to refund; buyer slot is zero.
-     *
-     *  ACCEPTED → any party after accept timeout expires
-     *             [U5-1] fundDeadline = acceptedAt + ACCEPT_TIMEOUT_BLOCKS
-     *             No funds locked; no refund needed.
-     *
-     *  FUNDED   → seller at any time (refund to buyer)
-     *             OR buyer after deadline (refund to buyer)
-     *             Releases locked funds back to buyer.
-     *
-     *  DISPUTED → buyer only after deadline + DISPUTE_TIMEOUT_BLOCKS
-     *             Releases locked funds back to buyer.
+     * Pure view — no state mutation.
+     * [V4-U1] Existence guard.
      *
-     * Emits: OrderCancelled
+     * Return layout (264 + 20 × allowedCount bytes):
+     *   u64  orderId      ( 8)
+     *   addr seller       (20)
+     *   addr buyer        (20)
+     *   u256 price        (32)
+     *   u256 locked       (32)
+     *   u8   state        ( 1)
+     *   u64  deadline     ( 8)
+     *   u64  acceptedAt   ( 8)   [U5-1]
+     *   addr arbiter      (20)   [U6-1]
+     *   u16  arbiterFee   ( 2)   [U6-1] bps
+     *   addr paymentToken (20)   [U6-5] zero = native mESC
+     *   b32  termsHash    (32)   [U6-6]
+     *   u64  disputedAt   ( 8)   [U6-9] 0 = never disputed
+     *   u256 bond         (32)   [U6-11] as posted; 0 = unbonded
+     *   u64  deliveredAt  ( 8)   [U6-14] 0 = not marked delivered
+     *   u32  revision     ( 4)   [U6-16] echo to fundOrder
+     *   u64  listingId    ( 8)   [U6-17] 0 = not a listing purchase
+     *   u8   allowedCount ( 1)   [U6-12] 0 = any buyer may accept
+     *   addr allowed[…]   (20 × allowedCount)
      */
-    private _cancelOrder(calldata: Calldata): BytesWriter {
-        // [U5-3]
-        this._requireNotLocked();
-        this._lock();
-
-        const orderId: u64    = calldata.readU64();
-        const caller: Address = Blockchain.sender;
-        const block: u64      = this._currentBlock();
+    private _getOrder(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
 
         // [V4-U1]
         this._requireOrderExists(orderId);
 
-        const state: u8 = this._readState(orderId);
-
-        if (state === STATE_CREATED) {
-            // ── Created — seller or deadline ──────────────────
-            const seller = this._readSeller(orderId);
-
-            if (!caller.equals(seller) && !this._isDeadlineExpired(orderId)) {
-                this._unlock();
-                throw new Revert(
-                    'ServiceMarketplace: only seller may cancel before deadline'
-                );
-            }
-
-            // [V4-U4] CREATED → CANCELLED.
-            this._transition(orderId, STATE_CREATED, STATE_CANCELLED);
+        const allowed: u8 = this._readAllowedCount(orderId);  // [U6-12]
 
-            // No funds were locked; emit with zero amount.
-            this.emitEvent(new OrderCancelledEvent(orderId, seller, u256.Zero));
-
-        } else if (state === STATE_ACCEPTED) {
-            // ── Accepted — any party after accept timeout ──────
-            const acceptedAt: u64   = this._readAcceptedAt(orderId);
-            const fundDeadline: u64 = (acceptedAt > u64.MAX_VALUE - ACCEPT_TIMEOUT_BLOCKS)
-                ? u64.MAX_VALUE
-                : acceptedAt + ACCEPT_TIMEOUT_BLOCKS;
-
-            if (block <= fundDeadline) {
-                this._unlock();
-                throw new Revert(
-                    'ServiceMarketplace: accept timeout has not elapsed yet'
-                );
-            }
+        const out = new BytesWriter(
+            SZ_U64  + SZ_ADDRESS + SZ_ADDRESS +
+            SZ_U256 + SZ_U256   +
+            SZ_U8   + SZ_U64    + SZ_U64     +
+            SZ_ADDRESS + SZ_U16 + SZ_ADDRESS + SZ_U256 +
+            SZ_U64  + SZ_U256   + SZ_U64 + SZ_U32 + SZ_U64 +
+            SZ_U8   + SZ_ADDRESS * <i32>allowed
+        );
 
-            // [V4-U4] ACCEPTED → CANCELLED.
-            this._transition(orderId, STATE_ACCEPTED, STATE_CANCELLED);
+        out.writeU64(orderId);
+        out.writeAddress(this._readSeller(orderId));
+        out.writeAddress(this._readBuyer(orderId));
+        out.writeU256(this._readPrice(orderId));
+        out.writeU256(this._readLocked(orderId));
+        out.writeU8(this._readState(orderId));
+        out.writeU64(this._readDeadline(orderId));
+        out.writeU64(this._readAcceptedAt(orderId));  // [U5-1]
+        out.writeAddress(this._readArbiter(orderId));    // [U6-1]
+        out.writeU16(this._readArbiterFeeBps(orderId));  // [U6-1]
+        out.writeAddress(this._readPaymentToken(orderId)); // [U6-5]
+        out.writeU256(this._readTermsHash(orderId));       // [U6-6]
+        out.writeU64(this._readDisputedAt(orderId));       // [U6-9]
+        out.writeU256(this._readBond(orderId));            // [U6-11]
+        out.writeU64(this._readDeliveredAt(orderId));      // [U6-14]
+        out.writeU32(this._readRevision(orderId));         // [U6-16]
+        out.writeU64(this._readOrderListing(orderId));     // [U6-17]
+        out.writeU8(allowed);                              // [U6-12]
+        for (let i: u8 = 0; i < allowed; i++) {
+            out.writeAddress(this._readAllowedBuyer(orderId, i));
+        }
 
-            const seller = this._readSeller(orderId);
-            this.emitEvent(new OrderCancelledEvent(orderId, seller, u256.Zero));
+        return out;
+    }
 
-        } else if (state === STATE_FUNDED) {
-            // ── Funded — seller anytime, buyer after deadline ──
-            const seller = this._readSeller(orderId);
-            const buyer  = this._readBuyer(orderId);
-            const locked = this._readLocked(orderId);
+    /**
+     * getMilestones(orderId: u64) → encoded milestone progress   [U6-2]
+     *
+     * Pure view — no state mutation.
+     * [V4-U1] Existence guard.
+     *
+     * Return layout (2 + 40 × count bytes):
+     *   u8   count        ( 1)   0 for single-price orders
+     *   u8   released     ( 1)
+     *   then per milestone, in order:
+     *     u256 amount     (32)
+     *     u64  deadline   ( 8)   absolute block height
+     */
+    private _getMilestones(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
 
-            if (!caller.equals(seller)) {
-                if (!caller.equals(buyer) || !this._isDeadlineExpired(orderId)) {
-                    this._unlock();
-                    throw new Revert(
-                        'ServiceMarketplace: only seller may cancel before deadline'
-                    );
-                }
-            }
+        // [V4-U1]
+        this._requireOrderExists(orderId);
 
-            // [U5-4]
-            this._requireNonZeroAddress(buyer);
+        const count: u8 = this._readMilestoneCount(orderId);
 
-            // [V4-U4] State and locked zeroed before release.
-            this._transition(orderId, STATE_FUNDED, STATE_CANCELLED);
-            this._writeLocked(orderId, u256.Zero);
+        const out = new BytesWriter(
+            SZ_U8 + SZ_U8 + <i32>count * (SZ_U256 + SZ_U64)
+        );
+        out.writeU8(count);
+        out.writeU8(this._readMilestonesReleased(orderId));
+        for (let i: u8 = 0; i < count; i++) {
+            out.writeU256(this._readMilestoneAmount(orderId, i));
+            out.writeU64(this._readMilestoneDeadline(orderId, i));
+        }
+        return out;
+    }
 
-            // [V4-U3]
-            this._escrowRelease(buyer, locked);
+    /**
+     * getEvidenceCount(orderId: u64) → 12-byte evidence summary   [U6-9]
+     *
+     * Pure view — no state mutation.
+     * [V4-U1] Existence guard.
+     *
+     * Return layout (12 bytes):
+     *   u32  count            ( 4)   EvidenceSubmitted events so far
+     *   u64  windowClosesAt   ( 8)   0 unless the order is DISPUTED
+     */
+    private _getEvidenceCount(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
 
-            this.emitEvent(new OrderCancelledEvent(orderId, buyer, locked));
+        // [V4-U1]
+        this._requireOrderExists(orderId);
 
-        } else if (state === STATE_DISPUTED) {
-            // ── Disputed — buyer force-refund after timeout ────
-            const deadline       = this._readDeadline(orderId);
-            const forceRefundAt: u64 = (deadline > u64.MAX_VALUE - DISPUTE_TIMEOUT_BLOCKS)
-                ? u64.MAX_VALUE
-                : deadline + DISPUTE_TIMEOUT_BLOCKS;
+        const closesAt: u64 = this._readState(orderId) === STATE_DISPUTED
+            ? this._forceRefundAt(orderId)
+            : 0;
 
-            if (block < forceRefundAt) {
-                this._unlock();
-                throw new Revert('ServiceMarketplace: dispute timeout has not elapsed yet');
-            }
+        const out = new BytesWriter(SZ_U32 + SZ_U64);
+        out.writeU32(this._readEvidenceCount(orderId));
+        out.writeU64(closesAt);
+        return out;
+    }
 
-            const buyer = this._readBuyer(orderId);
+    /**
+     * getDeadlineExtension(orderId: u64) → 28-byte open proposal   [U6-15]
+     *
+     * Pure view — no state mutation.
+     * [V4-U1] Existence guard.
+     *
+     * Return layout (28 bytes):
+     *   addr proposer      (20)   zero address = no open proposal
+     *   u64  newDeadline   ( 8)
+     */
+    private _getDeadlineExtension(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
 
-            if (!caller.equals(buyer)) {
-                this._unlock();
-                throw new Revert('ServiceMarketplace: only buyer may force-cancel after dispute timeout');
-            }
+        // [V4-U1]
+        this._requireOrderExists(orderId);
 
-            // [U5-4]
-            this._requireNonZeroAddress(buyer);
+        const out = new BytesWriter(SZ_ADDRESS + SZ_U64);
+        out.writeAddress(this._readExtProposer(orderId));
+        out.writeU64(this._readExtDeadline(orderId));
+        return out;
+    }
 
-            const locked = this._readLocked(orderId);
+    /**
+     * getRequest(requestId: u64) → 155-byte encoded request   [U6-13]
+     *
+     * Pure view — no state mutation.
+     *
+     * Return layout (155 bytes):
+     *   u64  requestId    ( 8)
+     *   addr buyer        (20)
+     *   u256 budget       (32)
+     *   u64  deadline     ( 8)   absolute delivery-by block
+     *   addr paymentToken (20)
+     *   b32  termsHash    (32)
+     *   addr arbiter      (20)
+     *   u16  arbiterFee   ( 2)   bps
+     *   u8   state        ( 1)   1 OPEN, 2 FILLED, 3 CANCELLED
+     *   u32  bidCount     ( 4)
+     *   u64  orderId      ( 8)   0 until a bid is selected
+     */
+    private _getRequest(calldata: Calldata): BytesWriter {
+        const requestId: u64 = calldata.readU64();
 
-            // [V4-U4] State and locked zeroed before release.
-            this._transition(orderId, STATE_DISPUTED, STATE_CANCELLED);
-            this._writeLocked(orderId, u256.Zero);
+        this._requireRequestExists(requestId);
 
-            // [V4-U3]
-            this._escrowRelease(buyer, locked);
+        const out = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U64 +
+            SZ_ADDRESS + SZ_U256 + SZ_ADDRESS + SZ_U16 +
+            SZ_U8 + SZ_U32 + SZ_U64
+        );
+        out.writeU64(requestId);
+        out.writeAddress(this._readIdAddress(PTR_REQ_BUYER, requestId));
+        out.writeU256(this._readIdWord(PTR_REQ_BUDGET, requestId));
+        out.writeU64(this._readIdWord(PTR_REQ_DEADLINE, requestId).lo1);
+        out.writeAddress(this._readIdAddress(PTR_REQ_TOKEN, requestId));
+        out.writeU256(this._readIdWord(PTR_REQ_TERMS, requestId));
+        out.writeAddress(this._readIdAddress(PTR_REQ_ARBITER, requestId));
+        out.writeU16(<u16>this._readIdWord(PTR_REQ_ARB_FEE, requestId).lo1);
+        out.writeU8(this._readRequestState(requestId));
+        out.writeU32(this._readBidCount(requestId));
+        out.writeU64(this._readIdWord(PTR_REQ_ORDER, requestId).lo1);
+        return out;
+    }
 
-            this.emitEvent(new OrderCancelledEvent(orderId, buyer, locked));
+    /**
+     * getBid(requestId: u64, bidId: u32) → 60-byte encoded bid   [U6-13]
+     *
+     * Pure view — no state mutation.
+     *
+     * Return layout (60 bytes):
+     *   addr seller       (20)
+     *   u256 price        (32)
+     *   u64  deadline     ( 8)   absolute delivery block
+     */
+    private _getBid(calldata: Calldata): BytesWriter {
+        const requestId: u64 = calldata.readU64();
+        const bidId: u32     = calldata.readU32();
 
-        } else {
-            this._unlock();
-            throw new Revert(
-                'ServiceMarketplace: order not cancellable in state ' +
-                state.toString()
-            );
+        this._requireRequestExists(requestId);
+        if (bidId >= this._readBidCount(requestId)) {
+            throw new Revert('ServiceMarketplace: bid does not exist');
         }
 
-        this._unlock();
-
-        const out = new BytesWriter(SZ_BOOL);
-        out.writeBoolean(true);
+        const out = new BytesWriter(SZ_ADDRESS + SZ_U256 + SZ_U64);
+        out.writeAddress(this._readBidSeller(requestId, bidId));
+        out.writeU256(this._readBidPrice(requestId, bidId));
+        out.writeU64(this._readBidDeadline(requestId, bidId));
         return out;
     }
 
     /**
-     * openDispute(orderId: u64) → bool
-     *
-     * Either buyer or seller may dispute a FUNDED order.
-     * Funds remain locked.  State transitions to DISPUTED.
+     * getSettlement(orderId: u64) → 52-byte open proposal   [U6-4]
      *
-     * Trust-minimised design:
-     *   Funds are NOT auto-released on dispute — auto-release
-     *   would allow a bad actor to manufacture a dispute and
-     *   steal escrowed value.  Funds are frozen until the buyer
-     *   force-cancels after DISPUTE_TIMEOUT_BLOCKS via cancelOrder.
-     *
-     * [U5-3] Reentrancy guard.
+     * Pure view — no state mutation.
      * [V4-U1] Existence guard.
-     * [V4-U4] _transition enforces FUNDED → DISPUTED.
      *
-     * State after: DISPUTED
-     * Emits:       OrderDisputed
+     * Return layout (52 bytes):
+     *   addr proposer      (20)   zero address = no open proposal
+     *   u256 sellerAmount  (32)
      */
-    private _openDispute(calldata: Calldata): BytesWriter {
-        // [U5-3]
-        this._requireNotLocked();
-        this._lock();
-
+    private _getSettlement(calldata: Calldata): BytesWriter {
         const orderId: u64 = calldata.readU64();
 
         // [V4-U1]
         this._requireOrderExists(orderId);
 
-        const caller = Blockchain.sender;
-        const seller = this._readSeller(orderId);
-        const buyer  = this._readBuyer(orderId);
-
-        if (!caller.equals(buyer) && !caller.equals(seller)) {
-            this._unlock();
-            throw new Revert('ServiceMarketplace: only buyer or seller may open a dispute');
-        }
-
-        // [V4-U4]
-        this._transition(orderId, STATE_FUNDED, STATE_DISPUTED);
-
-        this.emitEvent(new OrderDisputedEvent(orderId, caller));
-
-        this._unlock();
-
-        const out = new BytesWriter(SZ_BOOL);
-        out.writeBoolean(true);
+        const out = new BytesWriter(SZ_ADDRESS + SZ_U256);
+        out.writeAddress(this._readSettleProposer(orderId));
+        out.writeU256(this._readSettleAmount(orderId));
         return out;
     }
 
     /**
-     * sweepExcess() → bool   [U5-2]
+     * getOrdersBySeller(addr: Address, offset: u64, limit: u32)
+     * getOrdersByBuyer (addr: Address, offset: u64, limit: u32)   [U6-7]
      *
-     * Transfers any contract OP-20 balance above totalLocked to
-     * the caller (Blockchain.sender).
+     * Pure view — no state mutation.  Returns one page of the
+     * address's append-only index, oldest first.  `limit` is capped
+     * at MAX_PAGE_SIZE; an offset at or past the end yields an
+     * empty page (not a revert) so clients can page blindly.
      *
-     * This handles excess that can accumulate from:
-     *   • Direct token transfers to the contract address.
-     *   • Future protocol fee additions.
+     * The buyer index records acceptance, not current role: an
+     * order stays listed even if it later changes hands.
+     * [U6-19] Role transfers append the new holder, so an order
+     * can appear under several addresses.
      *
-     * Design properties:
-     *   • No owner restriction — consistent with the no-admin design.
-     *     Any caller receives the excess; first caller wins.
-     *   • Cannot touch locked funds — excess is computed as
-     *     (contractBalance - totalLocked) so locked funds are
-     *     structurally unreachable.
-     *   • No-op when excess == 0.
-     *   • [U5-3] Reentrancy guard.
+     * [U6-17] The owner key is read by the caller, so the same
+     * pager serves getListingPurchases.
      *
-     * Emits: ExcessSwept (only if excess > 0)
+     * Return layout (12 + 8 × count bytes):
+     *   u64  total        ( 8)   full index length
+     *   u32  count        ( 4)   ids in this page
+     *   u64  orderId[…]   ( 8 × count)
      */
-    private _sweepExcess(): BytesWriter {
-        // [U5-3]
-        this._requireNotLocked();
-        this._lock();
+    private _getIndexPage(countPtr: u16, listPtr: u16, key: u256, calldata: Calldata): BytesWriter {
+        const offset: u64  = calldata.readU64();
+        let limit: u32     = calldata.readU32();
 
-        const recipient      = Blockchain.sender;
-        const contractAddr   = Blockchain.contractAddress;
-        const contractBal    = this.balanceOfMap.get(contractAddr);
-        const totalLocked    = this._readTotalLocked();
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
 
-        // [U5-4]
-        this._requireNonZeroAddress(recipient);
+        const total: u64 = this._readIndexLength(countPtr, key);
+        let count: u32   = 0;
+        if (offset < total) {
+            const remaining: u64 = total - offset;
+            count = remaining < <u64>limit ? <u32>remaining : limit;
+        }
 
-        if (u256.gt(contractBal, totalLocked)) {
-            const excess: u256 = SafeMath.sub(contractBal, totalLocked);
+        const out = new BytesWriter(SZ_U64 + SZ_U32 + <i32>count * SZ_U64);
+        out.writeU64(total);
+        out.writeU32(count);
+        for (let i: u32 = 0; i < count; i++) {
+            out.writeU64(this._readIndexEntry(listPtr, key, offset + <u64>i));
+        }
+        return out;
+    }
 
-            const recipientBal  = this.balanceOfMap.get(recipient);
-            const newContract   = SafeMath.sub(contractBal, excess);
-            const newRecipient  = SafeMath.add(recipientBal, excess);
+    /**
+     * getOperator(owner: Address, operator: Address) → u32 mask   [U6-20]
+     *
+     * Pure view — no state mutation.  0 = not an operator.
+     */
+    private _getOperator(calldata: Calldata): BytesWriter {
+        const owner: Address    = calldata.readAddress();
+        const operator: Address = calldata.readAddress();
 
-            // Note: sweepExcess does NOT affect totalLocked because
-            // excess by definition is contractBalance - totalLocked,
-            // i.e. the portion of contractBalance NOT accounted for
-            // by any locked order.  Decrementing totalLocked here
-            // would corrupt the accounting for all active orders.
-            this.balanceOfMap.set(contractAddr, newContract);
-            this.balanceOfMap.set(recipient,    newRecipient);
+        const out = new BytesWriter(SZ_U32);
+        out.writeU32(this._readOperatorMask(owner, operator));
+        return out;
+    }
 
-            this.emitEvent(new ExcessSweptEvent(recipient, excess));
-        }
+    /**
+     * getPositionOwner(orderId: u64, role: u8) → 20-byte address   [U6-19]
+     *
+     * Pure view — no state mutation.  Current holder of the
+     * seller (0) or buyer (1) position; the zero address for a
+     * buyer position not yet taken.
+     * [V4-U1] Existence guard.
+     */
+    private _getPositionOwner(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
+        const role: u8     = calldata.readU8();
 
-        this._unlock();
+        // [V4-U1]
+        this._requireOrderExists(orderId);
 
-        const out = new BytesWriter(SZ_BOOL);
-        out.writeBoolean(true);
+        if (role !== ROLE_SELLER && role !== ROLE_BUYER) {
+            throw new Revert('ServiceMarketplace: unknown role ' + role.toString());
+        }
+
+        const out = new BytesWriter(SZ_ADDRESS);
+        out.writeAddress(role === ROLE_SELLER ? this._readSeller(orderId) : this._readBuyer(orderId));
         return out;
     }
 
     /**
-     * claimFaucet() → bool   [U5.1-1]
+     * getSubscription(subscriptionId: u64) → 342-byte encoded subscription   [U6-18]
      *
-     * Permissionless token faucet.  Mints FAUCET_AMOUNT to
-     * Blockchain.sender subject to three guards enforced in order:
-     *
-     *  (1) Sender must be non-zero.
-     *      Zero-address mints are structurally meaningless and
-     *      would silently burn supply against the cap.
-     *
-     *  (2) Cooldown: block.number - lastClaimBlock >= FAUCET_COOLDOWN
-     *      Prevents a single address from draining supply in rapid
-     *      succession.  First-ever claim always passes (lastClaim = 0).
-     *      Overflow-safe: block can never be less than lastClaim in
-     *      a valid chain, but we use saturating subtraction style via
-     *      explicit comparison to be defensive.
-     *
-     *  (3) Supply cap: totalSupply + FAUCET_AMOUNT <= TOKEN_MAX_SUPPLY
-     *      Uses SafeMath.add() to detect overflow and compares against
-     *      the u256 parsed from TOKEN_MAX_SUPPLY.  Guarantees the
-     *      max supply is structurally unreachable.
-     *
-     * On success:
-     *   • sender.balanceOfMap  += FAUCET_AMOUNT   (via this.mint)
-     *   • totalSupply          += FAUCET_AMOUNT   (tracked by OP-20 base)
-     *   • lastClaimBlock[sender] = currentBlock
-     *
-     * No owner check.  No admin.  No privileged mint.
-     * Escrow accounting (totalLocked) is not touched — faucet tokens
-     * go directly to the sender's wallet balance, not into escrow.
-     *
-     * [U5-3] Reentrancy guard.
-     * [U5-4] Non-zero sender check.
+     * Pure view — no state mutation.
      *
-     * Emits: FaucetClaimed
+     * Return layout (342 bytes):
+     *   u64  subscriptionId (  8)
+     *   addr buyer          ( 20)
+     *   addr seller         ( 20)
+     *   addr arbiter        ( 20)   zero = none
+     *   u16  arbiterFeeBps  (  2)
+     *   u256 pricePerPeriod ( 32)
+     *   u64  periodBlocks   (  8)
+     *   u64  startBlock     (  8)
+     *   u16  periodsFunded  (  2)
+     *   u16  periodsActive  (  2)   lowered by cancelSubscription
+     *   u64  currentPeriod  (  8)   may be ≥ periodsActive
+     *   addr paymentToken   ( 20)
+     *   b32  termsHash      ( 32)
+     *   u256 claimedBitmap  ( 32)   bit i = period i paid out (claimed or resolved)
+     *   u256 disputedBitmap ( 32)   bit i = period i disputed
+     *   u256 locked         ( 32)
+     *   u256 claimable      ( 32)   gross value of ended, undisputed, unsettled periods
+     *   u256 held           ( 32)   gross value of disputed, unsettled periods
      */
-    private _claimFaucet(): BytesWriter {
-        // [U5-3]
-        this._requireNotLocked();
-        this._lock();
+    private _getSubscription(calldata: Calldata): BytesWriter {
+        const subId: u64 = calldata.readU64();
 
-        const sender: Address = Blockchain.sender;
-        const block: u64      = this._currentBlock();
+        this._requireSubExists(subId);
 
-        // Guard (1): [U5-4] sender must be non-zero.
-        this._requireNonZeroAddress(sender);
+        const end: u64     = this._readIdWord(PTR_SUB_END, subId).lo1;
+        const current: u64 = this._currentSubPeriod(subId);
+        const ended: u64   = current < end ? current : end;
 
-        // Guard (2): cooldown per address.
-        const lastClaim: u64 = this._readLastClaimBlock(sender);
-        if (lastClaim !== 0) {
-            // Safe: block is always >= lastClaim in a valid chain;
-            // any node manipulation would cause the block comparison
-            // to fail the cooldown check — not underflow into wrong state.
-            if (block < lastClaim || block - lastClaim < FAUCET_COOLDOWN) {
-                this._unlock();
-                throw new Revert(
-                    'ServiceMarketplace: faucet cooldown has not elapsed yet'
-                );
-            }
+        let open: u32 = 0;
+        let held: u32 = 0;
+        for (let i: u64 = 0; i < end; i++) {
+            if (this._hasPeriodBit(PTR_SUB_CLAIMED, subId, <u16>i)) continue;
+            if (this._hasPeriodBit(PTR_SUB_DISPUTED, subId, <u16>i)) held++;
+            else if (i < ended) open++;
         }
+        const price: u256 = this._readIdWord(PTR_SUB_PRICE, subId);
 
-        // Guard (3): max supply cap.
-        const maxSupply: u256    = u256.fromString(TOKEN_MAX_SUPPLY);
-        const currentSupply: u256 = this.totalSupply;
-        const newSupply: u256     = SafeMath.add(currentSupply, FAUCET_AMOUNT);
+        const out = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_ADDRESS + SZ_ADDRESS + SZ_U16 +
+            SZ_U256 + SZ_U64 + SZ_U64 +
+            SZ_U16 + SZ_U16 + SZ_U64 + SZ_ADDRESS + SZ_U256 +
+            SZ_U256 + SZ_U256 + SZ_U256 + SZ_U256 + SZ_U256
+        );
+        out.writeU64(subId);
+        out.writeAddress(this._readIdAddress(PTR_SUB_BUYER, subId));
+        out.writeAddress(this._readIdAddress(PTR_SUB_SELLER, subId));
+        out.writeAddress(this._readIdAddress(PTR_SUB_ARBITER, subId));
+        out.writeU16(<u16>this._readIdWord(PTR_SUB_ARB_FEE, subId).lo1);
+        out.writeU256(price);
+        out.writeU64(this._readIdWord(PTR_SUB_PERIOD, subId).lo1);
+        out.writeU64(this._readIdWord(PTR_SUB_START, subId).lo1);
+        out.writeU16(<u16>this._readIdWord(PTR_SUB_FUNDED, subId).lo1);
+        out.writeU16(<u16>end);
+        out.writeU64(current);
+        out.writeAddress(this._readIdAddress(PTR_SUB_TOKEN, subId));
+        out.writeU256(this._readIdWord(PTR_SUB_TERMS, subId));
+        out.writeU256(this._readIdWord(PTR_SUB_CLAIMED, subId));
+        out.writeU256(this._readIdWord(PTR_SUB_DISPUTED, subId));
+        out.writeU256(this._readIdWord(PTR_SUB_LOCKED, subId));
+        out.writeU256(SafeMath.mul(price, u256.fromU32(open)));
+        out.writeU256(SafeMath.mul(price, u256.fromU32(held)));
+        return out;
+    }
 
-        if (u256.gt(newSupply, maxSupply)) {
-            this._unlock();
-            throw new Revert(
-                'ServiceMarketplace: faucet would exceed max supply'
-            );
-        }
+    /**
+     * getListing(listingId: u64) → 159-byte encoded listing   [U6-17]
+     *
+     * Pure view — no state mutation.
+     *
+     * Return layout (159 bytes):
+     *   u64  listingId      ( 8)
+     *   addr seller         (20)
+     *   u256 unitPrice      (32)
+     *   u64  deliveryBlocks ( 8)   relative to each purchase
+     *   u32  units          ( 4)
+     *   u32  unitsLeft      ( 4)
+     *   bool open           ( 1)
+     *   addr paymentToken   (20)
+     *   b32  termsHash      (32)
+     *   addr arbiter        (20)
+     *   u16  arbiterFee     ( 2)   bps
+     *   u64  purchases      ( 8)   see getListingPurchases
+     */
+    private _getListing(calldata: Calldata): BytesWriter {
+        const listingId: u64 = calldata.readU64();
 
-        // ── CHECKS-EFFECTS-INTERACTIONS ──────────────────────
-        // Update cooldown clock before mint to prevent any
-        // hypothetical reentrancy re-entry claiming twice.
-        this._writeLastClaimBlock(sender, block);
+        this._requireListingExists(listingId);
 
-        // Mint FAUCET_AMOUNT directly to sender.
-        // this.mint() updates both balanceOfMap[sender] and totalSupply
-        // atomically inside the OP-20 base implementation.
-        // totalLocked is NOT modified — faucet tokens are not escrowed.
-        this.mint(sender, FAUCET_AMOUNT);
+        const out = new BytesWriter(
+            SZ_U64 + SZ_ADDRESS + SZ_U256 + SZ_U64 + SZ_U32 + SZ_U32 + SZ_BOOL +
+            SZ_ADDRESS + SZ_U256 + SZ_ADDRESS + SZ_U16 + SZ_U64
+        );
+        out.writeU64(listingId);
+        out.writeAddress(this._readIdAddress(PTR_LST_SELLER, listingId));
+        out.writeU256(this._readIdWord(PTR_LST_PRICE, listingId));
+        out.writeU64(this._readIdWord(PTR_LST_DBLOCKS, listingId).lo1);
+        out.writeU32(<u32>this._readIdWord(PTR_LST_UNITS, listingId).lo1);
+        out.writeU32(this._readUnitsLeft(listingId));
+        out.writeBoolean(this._isListingOpen(listingId));
+        out.writeAddress(this._readIdAddress(PTR_LST_TOKEN, listingId));
+        out.writeU256(this._readIdWord(PTR_LST_TERMS, listingId));
+        out.writeAddress(this._readIdAddress(PTR_LST_ARBITER, listingId));
+        out.writeU16(<u16>this._readIdWord(PTR_LST_ARB_FEE, listingId).lo1);
+        out.writeU64(this._readIndexLength(PTR_LST_PURCH_N, this._sub(listingId)));
+        return out;
+    }
+
+    /**
+     * getListingPurchases(listingId: u64, offset: u64, limit: u32)   [U6-17]
+     *
+     * The purchase orderIds of a listing, oldest first; same paging
+     * and layout as getOrdersBySeller.  Each id is a normal order —
+     * read it with getOrder.
+     */
+    private _getListingPurchases(calldata: Calldata): BytesWriter {
+        const listingId: u64 = calldata.readU64();
 
-        this.emitEvent(new FaucetClaimedEvent(sender, FAUCET_AMOUNT, block));
+        this._requireListingExists(listingId);
 
-        this._unlock();
+        return this._getIndexPage(PTR_LST_PURCH_N, PTR_LST_PURCH, this._sub(listingId), calldata);
+    }
 
-        const out = new BytesWriter(SZ_BOOL);
-        out.writeBoolean(true);
+    /**
+     * getReputation(addr: Address) → 72-byte reputation record   [U6-10]
+     *
+     * Pure view — no state mutation.  Unknown addresses return
+     * all zeros.
+     *
+     * Return layout (72 bytes):
+     *   u64  completedAsSeller      ( 8)
+     *   u64  completedAsBuyer       ( 8)
+     *   u64  cancelledAfterFunding  ( 8)   as seller, by the buyer's side
+     *   u64  disputesOpened         ( 8)
+     *   u64  disputesLost           ( 8)   as seller, by force-refund
+     *   u256 volume                 (32)   native mESC, gross of fees
+     */
+    private _getReputation(calldata: Calldata): BytesWriter {
+        const addr: Address = calldata.readAddress();
+
+        const out = new BytesWriter(SZ_U64 * 5 + SZ_U256);
+        out.writeU64(this._readCounter(PTR_REP_SOLD, addr));
+        out.writeU64(this._readCounter(PTR_REP_BOUGHT, addr));
+        out.writeU64(this._readCounter(PTR_REP_CANCELS, addr));
+        out.writeU64(this._readCounter(PTR_REP_DISPUTES, addr));
+        out.writeU64(this._readCounter(PTR_REP_LOST, addr));
+        out.writeU256(this._readVolume(addr));
         return out;
     }
 
-    // ─────────────────────────────────────────────────────────
-    //  VIEW METHODS
-    // ─────────────────────────────────────────────────────────
-
     /**
-     * getOrder(orderId: u64) → 129-byte encoded order
+     * getProposal(proposalId: u64) → 166-byte encoded proposal   [U6-21]
      *
      * Pure view — no state mutation.
-     * [V4-U1] Existence guard.
      *
-     * Return layout (129 bytes):
-     *   u64  orderId      ( 8)
-     *   addr seller       (20)
-     *   addr buyer        (20)
-     *   u256 price        (32)
-     *   u256 locked       (32)
-     *   u8   state        ( 1)
-     *   u64  deadline     ( 8)
-     *   u64  acceptedAt   ( 8)   [U5-1]
+     * Return layout (166 bytes):
+     *   u8   param        ( 1)   PARAM_*
+     *   u256 value        (32)
+     *   addr proposer     (20)
+     *   u64  votingEnds   ( 8)
+     *   u64  executableAt ( 8)   votingEnds + GOV_TIMELOCK_BLOCKS
+     *   u256 votesFor     (32)
+     *   u256 votesAgainst (32)
+     *   u256 quorum       (32)   GOV_QUORUM
+     *   u8   status       ( 1)   PROPOSAL_*
      */
-    private _getOrder(calldata: Calldata): BytesWriter {
-        const orderId: u64 = calldata.readU64();
+    private _getProposal(calldata: Calldata): BytesWriter {
+        const proposalId: u64 = calldata.readU64();
+        this._requireProposalExists(proposalId);
 
-        // [V4-U1]
+        const end: u64 = this._readIdWord(PTR_PROP_END, proposalId).lo1;
+
+        const out = new BytesWriter(
+            SZ_U8 + SZ_U256 + SZ_ADDRESS + SZ_U64 * 2 + SZ_U256 * 3 + SZ_U8
+        );
+        out.writeU8(<u8>(this._readIdWord(PTR_PROP_PARAM, proposalId).lo1 & 0xFF));
+        out.writeU256(this._readIdWord(PTR_PROP_VALUE, proposalId));
+        out.writeAddress(this._readIdAddress(PTR_PROP_BY, proposalId));
+        out.writeU64(end);
+        out.writeU64(end + GOV_TIMELOCK_BLOCKS);
+        out.writeU256(this._readIdWord(PTR_PROP_FOR, proposalId));
+        out.writeU256(this._readIdWord(PTR_PROP_AGAINST, proposalId));
+        out.writeU256(GOV_QUORUM);
+        out.writeU8(this._proposalStatus(proposalId));
+        return out;
+    }
+
+    /**
+     * getParameters() → 160-byte encoded parameters   [U6-21]
+     *
+     * Values in force for new orders, as u256 in PARAM_* order:
+     *   minDeadline, acceptTimeout, disputeTimeout, faucetAmount,
+     *   faucetCooldown.
+     */
+    private _getParameters(): BytesWriter {
+        const out = new BytesWriter(SZ_U256 * <i32>PARAM_COUNT);
+        for (let p: u8 = 0; p < PARAM_COUNT; p++) {
+            out.writeU256(this._readParam(p));
+        }
+        return out;
+    }
+
+    /**
+     * getOrderParameters(orderId: u64) → 24-byte encoded snapshot   [U6-21]
+     *
+     * The block parameters `orderId` runs under.
+     *
+     * Return layout (24 bytes):
+     *   u64 minDeadline    (8)
+     *   u64 acceptTimeout  (8)
+     *   u64 disputeTimeout (8)
+     */
+    private _getOrderParameters(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
         this._requireOrderExists(orderId);
 
+        const out = new BytesWriter(SZ_U64 * 3);
+        out.writeU64(this._orderParam(orderId, PARAM_MIN_DEADLINE));
+        out.writeU64(this._orderParam(orderId, PARAM_ACCEPT_TIMEOUT));
+        out.writeU64(this._orderParam(orderId, PARAM_DISPUTE_TIMEOUT));
+        return out;
+    }
+
+    /**
+     * getConfig() → 117-byte encoded configuration   [U6-22]
+     *
+     * The deployment configuration as currently in force; the
+     * timeouts and faucet values reflect any governance changes.
+     * A disabled faucet reports amount and cooldown 0.
+     *
+     * Return layout (117 bytes):
+     *   addr treasury       (20)
+     *   u256 maxSupply      (32)
+     *   u64  minDeadline    ( 8)
+     *   u64  acceptTimeout  ( 8)
+     *   u64  disputeTimeout ( 8)
+     *   bool faucetEnabled  ( 1)
+     *   u256 faucetAmount   (32)
+     *   u64  faucetCooldown ( 8)
+     */
+    private _getConfig(): BytesWriter {
         const out = new BytesWriter(
-            SZ_U64  + SZ_ADDRESS + SZ_ADDRESS +
-            SZ_U256 + SZ_U256   +
-            SZ_U8   + SZ_U64    + SZ_U64
+            SZ_ADDRESS + SZ_U256 + SZ_U64 * 3 + SZ_BOOL + SZ_U256 + SZ_U64
         );
+        out.writeAddress(this._readTreasury());
+        out.writeU256(this.maxSupply);
+        out.writeU64(this._paramU64(PARAM_MIN_DEADLINE));
+        out.writeU64(this._paramU64(PARAM_ACCEPT_TIMEOUT));
+        out.writeU64(this._paramU64(PARAM_DISPUTE_TIMEOUT));
+        const faucetOn: bool = this._isFaucetEnabled();
+        out.writeBoolean(faucetOn);
+        out.writeU256(faucetOn ? this._readParam(PARAM_FAUCET_AMOUNT) : u256.Zero);
+        out.writeU64(faucetOn ? this._paramU64(PARAM_FAUCET_COOLDOWN) : 0);
+        return out;
+    }
 
-        out.writeU64(orderId);
-        out.writeAddress(this._readSeller(orderId));
-        out.writeAddress(this._readBuyer(orderId));
-        out.writeU256(this._readPrice(orderId));
-        out.writeU256(this._readLocked(orderId));
-        out.writeU8(this._readState(orderId));
-        out.writeU64(this._readDeadline(orderId));
-        out.writeU64(this._readAcceptedAt(orderId));  // [U5-1]
+    /**
+     * getSchemaInfo(orderId: u64) → 8-byte encoded versions   [U6-23]
+     *
+     * Pure view — reports the stamp as stored, without upgrading.
+     * orderId 0 asks for the contract version only (orderSchema 0).
+     *
+     * Return layout (8 bytes):
+     *   u32 contractSchema (4)   SCHEMA_CURRENT of this build
+     *   u32 orderSchema    (4)   SCHEMA_LEGACY until its first transition
+     */
+    private _getSchemaInfo(calldata: Calldata): BytesWriter {
+        const orderId: u64 = calldata.readU64();
+        if (orderId !== 0) this._requireOrderExists(orderId);
 
+        const out = new BytesWriter(SZ_U32 + SZ_U32);
+        out.writeU32(SCHEMA_CURRENT);
+        out.writeU32(orderId !== 0 ? this._readOrderSchema(orderId) : SCHEMA_LEGACY);
         return out;
     }
 
     /**
-     * getEscrowStats() → 72-byte encoded stats
+     * getEscrowStats() → 164-byte encoded stats
      *
      * Exposes the invariant variables for off-chain monitoring.
-     * A healthy contract always satisfies contractBalance >= totalLocked.
+     * A healthy contract always satisfies
+     *   contractBalance >= totalLocked + feesAccrued + votesLocked.
      * Any divergence should trigger an immediate off-chain alert.
      *
-     * Return layout (72 bytes):
+     * Return layout (164 bytes):
      *   u256 contractBalance (32)
      *   u256 totalLocked     (32)
-     *   u64  orderCount      ( 8)
+     *   u64  orderCount      ( 8)   ids issued, listings included [U6-17]
+     *   u256 feesAccrued     (32)   [U6-3]
+     *   addr treasury        (20)   [U6-3]
+     *   u64  frozenAt        ( 8)   [U6-24] 0 = live
+     *   u256 votesLocked     (32)   [U6-21] outside totalLocked
      */
     private _getEscrowStats(): BytesWriter {
         const contractBal = this.balanceOfMap.get(Blockchain.contractAddress);
-        const totalLocked = this._readTotalLocked();
+        const native      = Address.fromU256(u256.Zero);
+        const totalLocked = this._readTotalLocked(native);
         const orderCount  = this._readOrderCount();
 
-        const out = new BytesWriter(SZ_U256 + SZ_U256 + SZ_U64);
+        const out = new BytesWriter(
+            SZ_U256 + SZ_U256 + SZ_U64 + SZ_U256 + SZ_ADDRESS + SZ_U64 + SZ_U256
+        );
         out.writeU256(contractBal);
         out.writeU256(totalLocked);
         out.writeU64(orderCount);
+        out.writeU256(this._readFeesAccrued(native));  // [U6-3]
+        out.writeAddress(this._readTreasury());        // [U6-3]
+        out.writeU64(this._readFrozenAt(native));      // [U6-24]
+        out.writeU256(this._readVotesLocked());        // [U6-21]
+        return out;
+    }
+
+    /**
+     * getTokenEscrowStats(token: Address) → 104-byte encoded stats   [U6-5]
+     *
+     * getEscrowStats for any payment token (zero = native mESC).
+     * A healthy token satisfies
+     *   contractBalance >= totalLocked + feesAccrued
+     * (plus votesLocked for native mESC [U6-21]).
+     *
+     * Return layout (104 bytes):
+     *   u256 contractBalance (32)   balanceOf(this) on the token
+     *   u256 totalLocked     (32)
+     *   u256 feesAccrued     (32)
+     *   u64  frozenAt        ( 8)   [U6-24] 0 = live
+     */
+    private _getTokenEscrowStats(calldata: Calldata): BytesWriter {
+        const token: Address = calldata.readAddress();
+
+        const out = new BytesWriter(SZ_U256 + SZ_U256 + SZ_U256 + SZ_U64);
+        out.writeU256(this._contractBalanceOf(token));
+        out.writeU256(this._readTotalLocked(token));
+        out.writeU256(this._readFeesAccrued(token));
+        out.writeU64(this._readFrozenAt(token));  // [U6-24]
         return out;
     }
 }
@@ -0,0 +1,263 @@
+// ============================================================
+//  Binary codec matching the contract's BytesWriter / BytesReader.
+//
+//  Every integer is big-endian.  Addresses are 20 bytes (the
+//  contract's SZ_ADDRESS), bytes32 values are 32 bytes, bools one
+//  byte.  Arrays carry a length prefix whose width depends on the
+//  call (u16 for calldata arrays, u8 / u32 in some results), so
+//  list() takes the prefix codec explicitly.
+//
+//  Value types on the TypeScript side:
+//    u8 / u16 / u32  → number
+//    u64 / u256      → bigint
+//    address         → 0x-prefixed, 40 lowercase hex chars
+//    bytes32         → 0x-prefixed, 64 lowercase hex chars
+// ============================================================
+
+export type Address = `0x${string}`;
+export type Bytes32 = `0x${string}`;
+
+export const ZERO_ADDRESS: Address = `0x${'00'.repeat(20)}`;
+export const ZERO_BYTES32: Bytes32 = `0x${'00'.repeat(32)}`;
+
+const U64_MAX  = (1n << 64n) - 1n;
+const U256_MAX = (1n << 256n) - 1n;
+
+export class CodecError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = 'CodecError';
+    }
+}
+
+/** Growable big-endian writer. */
+export class Writer {
+    private buf  = new Uint8Array(64);
+    private view = new DataView(this.buf.buffer);
+    private pos  = 0;
+
+    private reserve(n: number): number {
+        if (this.pos + n > this.buf.length) {
+            let size = this.buf.length * 2;
+            while (size < this.pos + n) size *= 2;
+            const next = new Uint8Array(size);
+            next.set(this.buf);
+            this.buf  = next;
+            this.view = new DataView(next.buffer);
+        }
+        const at = this.pos;
+        this.pos += n;
+        return at;
+    }
+
+    public u8(v: number): void {
+        checkUint(v, 0xff, 'u8');
+        const at = this.reserve(1);
+        this.view.setUint8(at, v);
+    }
+
+    public u16(v: number): void {
+        checkUint(v, 0xffff, 'u16');
+        const at = this.reserve(2);
+        this.view.setUint16(at, v);
+    }
+
+    public u32(v: number): void {
+        checkUint(v, 0xffffffff, 'u32');
+        const at = this.reserve(4);
+        this.view.setUint32(at, v);
+    }
+
+    public u64(v: bigint): void {
+        if (v < 0n || v > U64_MAX) throw new CodecError(`u64 out of range: ${v}`);
+        const at = this.reserve(8);
+        this.view.setBigUint64(at, v);
+    }
+
+    public u256(v: bigint): void {
+        if (v < 0n || v > U256_MAX) throw new CodecError(`u256 out of range: ${v}`);
+        const at = this.reserve(32);
+        let rest = v;
+        for (let i = 31; i >= 0; i--) {
+            this.buf[at + i] = Number(rest & 0xffn);
+            rest >>= 8n;
+        }
+    }
+
+    public bool(v: boolean): void {
+        const at = this.reserve(1);
+        this.view.setUint8(at, v ? 1 : 0);
+    }
+
+    public bytes(v: Uint8Array): void {
+        const at = this.reserve(v.length);
+        this.buf.set(v, at);
+    }
+
+    public toBytes(): Uint8Array {
+        return this.buf.slice(0, this.pos);
+    }
+}
+
+/** Big-endian reader; every read is bounds-checked. */
+export class Reader {
+    private readonly view: DataView;
+    private pos = 0;
+
+    public constructor(private readonly buf: Uint8Array) {
+        this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    }
+
+    private take(n: number): number {
+        if (this.pos + n > this.buf.length) {
+            throw new CodecError(`read past end: need ${n} bytes at offset ${this.pos} of ${this.buf.length}`);
+        }
+        const at = this.pos;
+        this.pos += n;
+        return at;
+    }
+
+    public get remaining(): number {
+        return this.buf.length - this.pos;
+    }
+
+    public u8(): number {
+        return this.view.getUint8(this.take(1));
+    }
+
+    public u16(): number {
+        return this.view.getUint16(this.take(2));
+    }
+
+    public u32(): number {
+        return this.view.getUint32(this.take(4));
+    }
+
+    public u64(): bigint {
+        return this.view.getBigUint64(this.take(8));
+    }
+
+    public u256(): bigint {
+        const at = this.take(32);
+        let v = 0n;
+        for (let i = 0; i < 32; i++) v = (v << 8n) | BigInt(this.buf[at + i] as number);
+        return v;
+    }
+
+    public bool(): boolean {
+        return this.view.getUint8(this.take(1)) !== 0;
+    }
+
+    public bytes(n: number): Uint8Array {
+        const at = this.take(n);
+        return this.buf.slice(at, at + n);
+    }
+}
+
+function checkUint(v: number, max: number, name: string): void {
+    if (!Number.isInteger(v) || v < 0 || v > max) {
+        throw new CodecError(`${name} out of range: ${v}`);
+    }
+}
+
+export function toHex(bytes: Uint8Array): `0x${string}` {
+    let s = '0x';
+    for (const b of bytes) s += b.toString(16).padStart(2, '0');
+    return s as `0x${string}`;
+}
+
+export function fromHex(hex: string, length: number): Uint8Array {
+    const body = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+    if (body.length !== length * 2 || !/^[0-9a-fA-F]*$/.test(body)) {
+        throw new CodecError(`expected ${length}-byte hex, got ${hex}`);
+    }
+    const out = new Uint8Array(length);
+    for (let i = 0; i < length; i++) out[i] = parseInt(body.slice(i * 2, i * 2 + 2), 16);
+    return out;
+}
+
+// ── Codecs ────────────────────────────────────────────────────
+
+/** A value type together with its wire encoding. */
+export interface Codec<T> {
+    write(w: Writer, value: T): void;
+    read(r: Reader): T;
+}
+
+/** The TypeScript type a codec produces. */
+export type Infer<C> = C extends Codec<infer T> ? T : never;
+
+export const u8: Codec<number> = { write: (w, v) => w.u8(v), read: (r) => r.u8() };
+export const u16: Codec<number> = { write: (w, v) => w.u16(v), read: (r) => r.u16() };
+export const u32: Codec<number> = { write: (w, v) => w.u32(v), read: (r) => r.u32() };
+export const u64: Codec<bigint> = { write: (w, v) => w.u64(v), read: (r) => r.u64() };
+export const u256: Codec<bigint> = { write: (w, v) => w.u256(v), read: (r) => r.u256() };
+export const bool: Codec<boolean> = { write: (w, v) => w.bool(v), read: (r) => r.bool() };
+
+export const address: Codec<Address> = {
+    write: (w, v) => w.bytes(fromHex(v, 20)),
+    read: (r) => toHex(r.bytes(20)),
+};
+
+export const bytes32: Codec<Bytes32> = {
+    write: (w, v) => w.bytes(fromHex(v, 32)),
+    read: (r) => toHex(r.bytes(32)),
+};
+
+/** Raw bytes behind a u32 length, as used by multicall. */
+export const bytes: Codec<Uint8Array> = {
+    write: (w, v) => {
+        w.u32(v.length);
+        w.bytes(v);
+    },
+    read: (r) => r.bytes(r.u32()),
+};
+
+/** Length-prefixed array; `length` is the prefix width. */
+export function list<T>(length: Codec<number>, item: Codec<T>): Codec<T[]> {
+    return {
+        write: (w, values) => {
+            length.write(w, values.length);
+            for (const v of values) item.write(w, v);
+        },
+        read: (r) => {
+            const n = length.read(r);
+            const out: T[] = [];
+            for (let i = 0; i < n; i++) out.push(item.read(r));
+            return out;
+        },
+    };
+}
+
+type Fields = Record<string, Codec<unknown>>;
+
+/** Fields in declaration order, exactly as the contract writes them. */
+export function struct<F extends Fields>(fields: F): Codec<{ [K in keyof F]: Infer<F[K]> }> {
+    const entries = Object.entries(fields);
+    return {
+        write: (w, value) => {
+            for (const [key, codec] of entries) codec.write(w, value[key]);
+        },
+        read: (r) => {
+            const out: Record<string, unknown> = {};
+            for (const [key, codec] of entries) out[key] = codec.read(r);
+            return out as { [K in keyof F]: Infer<F[K]> };
+        },
+    };
+}
+
+export function encode<T>(codec: Codec<T>, value: T): Uint8Array {
+    const w = new Writer();
+    codec.write(w, value);
+    return w.toBytes();
+}
+
+/** Decodes `data` in full; trailing bytes are an error. */
+export function decode<T>(codec: Codec<T>, data: Uint8Array): T {
+    const r = new Reader(data);
+    const value = codec.read(r);
+    if (r.remaining !== 0) {
+        throw new CodecError(`${r.remaining} trailing bytes`);
+    }
+    return value;
+}
@@ -0,0 +1,89 @@
+// ============================================================
+//  Enumerations and limits mirrored from EscrowMarketplace.ts.
+//
+//  Values are wire values: they are what the contract writes in
+//  view results and event payloads, and what it expects in
+//  calldata.  test/drift.test.ts re-reads the contract source and
+//  fails if any of these fall out of step.
+// ============================================================
+
+/** Order lifecycle (STATE_*). */
+export enum OrderState {
+    NONE      = 0, // uninitialised sentinel
+    CREATED   = 1, // seller listed, no buyer
+    ACCEPTED  = 2, // buyer claimed, not yet funded
+    FUNDED    = 3, // funds locked in escrow
+    COMPLETED = 4, // delivery confirmed (terminal)
+    CANCELLED = 5, // cancelled — funds returned (terminal)
+    DISPUTED  = 6, // dispute raised — funds frozen
+    RESOLVED  = 7, // arbiter split the escrow (terminal)
+    SETTLED   = 8, // parties agreed a split (terminal)
+}
+
+/** Buyer request lifecycle (REQUEST_*). */
+export enum RequestState {
+    NONE      = 0,
+    OPEN      = 1,
+    FILLED    = 2,
+    CANCELLED = 3,
+}
+
+/** Governance proposal status (PROPOSAL_*), as returned by getProposal. */
+export enum ProposalStatus {
+    NONE     = 0,
+    VOTING   = 1,
+    QUEUED   = 2,
+    READY    = 3,
+    DEFEATED = 4,
+    EXPIRED  = 5,
+    EXECUTED = 6,
+}
+
+/** Governable parameter ids (PARAM_*); also the index into getParameters. */
+export enum Param {
+    MIN_DEADLINE    = 0,
+    ACCEPT_TIMEOUT  = 1,
+    DISPUTE_TIMEOUT = 2,
+    FAUCET_AMOUNT   = 3,
+    FAUCET_COOLDOWN = 4,
+}
+
+export const PARAM_COUNT = 5;
+
+/** Order side for getPositionOwner and RoleTransferred (ROLE_*). */
+export enum Role {
+    SELLER = 0,
+    BUYER  = 1,
+}
+
+/** Operator permission bits (PERM_*); combine with `|`. */
+export const Permission = {
+    NONE:    0,
+    ACCEPT:  1 << 0, // acceptOrderFor
+    FUND:    1 << 1, // fundOrder
+    CONFIRM: 1 << 2, // confirmCompletion, releaseMilestone
+    CANCEL:  1 << 3, // cancelOrder, cancelOrders
+    DISPUTE: 1 << 4, // openDispute
+    ALL:     0x1f,
+} as const;
+
+/** Order record layout version (SCHEMA_*), as returned by getSchemaInfo. */
+export enum SchemaVersion {
+    LEGACY  = 0,
+    CURRENT = 1,
+}
+
+// ── Limits the contract enforces on calldata ──────────────────
+
+export const BPS_DENOMINATOR     = 10_000;
+export const MAX_ARBITER_FEE_BPS = 1_000;
+export const MAX_MILESTONES      = 16;
+export const MAX_PAGE_SIZE       = 100;
+export const MAX_BATCH_SIZE      = 32;
+export const MAX_ALLOWED_BUYERS  = 8;
+export const MAX_SUB_PERIODS     = 256;
+export const MAX_PARAM_BLOCKS    = 52_560n;
+
+// Bounds on the governed faucet parameters.
+export const MAX_FAUCET_AMOUNT   = 100_000_000_000n; // 1 000 mESC
+export const MIN_FAUCET_COOLDOWN = 144n;
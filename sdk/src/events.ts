@@ -0,0 +1,193 @@
+// ============================================================
+//  Decoders for every NetEvent the contract emits.
+//
+//  Keys are the event type strings passed to super(); each codec
+//  reads the payload in the order the event constructor writes it.
+//  Hashes the contract stores as u256 (termsHash, evidenceHash) are
+//  surfaced as bytes32 — the same 32 big-endian bytes.
+// ============================================================
+
+import {
+    type Codec,
+    type Infer,
+    CodecError,
+    address,
+    bool,
+    bytes32,
+    decode,
+    encode,
+    struct,
+    u16,
+    u256,
+    u32,
+    u64,
+    u8,
+} from './codec.js';
+
+export const events = {
+    OrderCreated: struct({
+        orderId: u64,
+        seller: address,
+        price: u256,
+        deadline: u64,
+        arbiter: address,
+        arbiterFeeBps: u16,
+        paymentToken: address,
+        termsHash: bytes32,
+        bond: u256,
+    }),
+    OrderUpdated: struct({ orderId: u64, revision: u32, price: u256, deadline: u64 }),
+    OrderAccepted: struct({ orderId: u64, buyer: address, acceptedAt: u64, actor: address }),
+    OrderFunded: struct({ orderId: u64, buyer: address, amount: u256, actor: address }),
+    // amount is the order's price (Σ milestone amounts), however it completed.
+    OrderCompleted: struct({ orderId: u64, seller: address, amount: u256, actor: address }),
+    OrderCancelled: struct({ orderId: u64, refundTo: address, amount: u256, actor: address }),
+    OrderDisputed: struct({ orderId: u64, raisedBy: address, actor: address }),
+    DisputeResolved: struct({
+        orderId: u64,
+        arbiter: address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+        arbiterFee: u256,
+    }),
+    ExcessSwept: struct({ recipient: address, amount: u256, token: address }),
+    ProtocolFeeAccrued: struct({ orderId: u64, subscriptionId: u64, token: address, fee: u256 }),
+    EscrowFrozen: struct({ token: address, balance: u256, required: u256, frozenAt: u64 }),
+    EmergencyWithdrawal: struct({
+        orderId: u64,
+        buyer: address,
+        buyerShare: u256,
+        seller: address,
+        sellerShare: u256,
+    }),
+    FrozenPayout: struct({ token: address, recipient: address, owed: u256, paid: u256 }),
+    FeesWithdrawn: struct({ treasury: address, token: address, amount: u256 }),
+    FaucetClaimed: struct({ recipient: address, amount: u256, claimedAt: u64 }),
+    ProposalCreated: struct({
+        proposalId: u64,
+        proposer: address,
+        param: u8,
+        value: u256,
+        votingEnds: u64,
+    }),
+    VoteCast: struct({ proposalId: u64, voter: address, support: bool, weight: u256 }),
+    VoteWithdrawn: struct({ proposalId: u64, voter: address, amount: u256 }),
+    ProposalExecuted: struct({ proposalId: u64, param: u8, oldValue: u256, newValue: u256 }),
+    MilestoneReleased: struct({ orderId: u64, index: u8, seller: address, amount: u256 }),
+    SettlementProposed: struct({
+        orderId: u64,
+        proposer: address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+    }),
+    SettlementWithdrawn: struct({ orderId: u64, proposer: address }),
+    SettlementExecuted: struct({
+        orderId: u64,
+        acceptedBy: address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+    }),
+    OrderDelivered: struct({ orderId: u64, seller: address, deliveredAt: u64, reviewEndsAt: u64 }),
+    DeadlineExtensionProposed: struct({ orderId: u64, proposer: address, newDeadline: u64 }),
+    DeadlineExtended: struct({
+        orderId: u64,
+        approver: address,
+        oldDeadline: u64,
+        newDeadline: u64,
+    }),
+    ListingCreated: struct({
+        listingId: u64,
+        seller: address,
+        unitPrice: u256,
+        units: u32,
+        deliveryBlocks: u64,
+        paymentToken: address,
+        termsHash: bytes32,
+    }),
+    ListingPurchased: struct({ listingId: u64, orderId: u64, buyer: address, unitsLeft: u32 }),
+    ListingClosed: struct({ listingId: u64, seller: address, unitsLeft: u32 }),
+    SubscriptionCreated: struct({
+        subId: u64,
+        buyer: address,
+        seller: address,
+        pricePerPeriod: u256,
+        periodBlocks: u64,
+        periods: u16,
+        paymentToken: address,
+        startBlock: u64,
+    }),
+    SubscriptionClaimed: struct({
+        subId: u64,
+        period: u16,
+        seller: address,
+        amount: u256,
+        fee: u256,
+    }),
+    SubscriptionDisputed: struct({ subId: u64, period: u16, buyer: address, held: u256 }),
+    SubscriptionResolved: struct({
+        subId: u64,
+        period: u16,
+        resolvedBy: address,
+        sellerAmount: u256,
+        buyerAmount: u256,
+        arbiterFee: u256,
+    }),
+    SubscriptionCancelled: struct({
+        subId: u64,
+        caller: address,
+        activePeriods: u16,
+        refund: u256,
+    }),
+    RoleTransferred: struct({ orderId: u64, role: u8, from: address, to: address }),
+    OperatorSet: struct({ owner: address, operator: address, mask: u32 }),
+    EvidenceSubmitted: struct({
+        orderId: u64,
+        submitter: address,
+        evidenceHash: bytes32,
+        index: u32,
+    }),
+    BondReleased: struct({ orderId: u64, recipient: address, amount: u256 }),
+    RequestCreated: struct({
+        requestId: u64,
+        buyer: address,
+        budget: u256,
+        deadline: u64,
+        paymentToken: address,
+        termsHash: bytes32,
+    }),
+    BidSubmitted: struct({
+        requestId: u64,
+        bidId: u32,
+        seller: address,
+        price: u256,
+        deadline: u64,
+    }),
+    BidSelected: struct({ requestId: u64, bidId: u32, orderId: u64 }),
+    RequestCancelled: struct({ requestId: u64, buyer: address }),
+} as const;
+
+export type EventType = keyof typeof events;
+
+export type EventData<T extends EventType> = Infer<(typeof events)[T]>;
+
+/** Discriminated union over every event; narrow on `type`. */
+export type MarketplaceEvent = {
+    [T in EventType]: { type: T; data: EventData<T> };
+}[EventType];
+
+export function isEventType(type: string): type is EventType {
+    return Object.prototype.hasOwnProperty.call(events, type);
+}
+
+/** Decodes a raw NetEvent (type string plus payload bytes). */
+export function decodeEvent(type: string, data: Uint8Array): MarketplaceEvent {
+    if (!isEventType(type)) {
+        throw new CodecError(`unknown event type: ${type}`);
+    }
+    const codec = events[type] as Codec<unknown>;
+    return { type, data: decode(codec, data) } as MarketplaceEvent;
+}
+
+export function encodeEvent<T extends EventType>(type: T, data: EventData<T>): Uint8Array {
+    return encode(events[type] as Codec<EventData<T>>, data);
+}
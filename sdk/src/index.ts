@@ -0,0 +1,5 @@
+export * from './codec.js';
+export * from './constants.js';
+export * from './events.js';
+export * from './methods.js';
+export { selector } from './selectors.js';
@@ -0,0 +1,551 @@
+// ============================================================
+//  Typed ABI for every selector ServiceMarketplace.callMethod()
+//  dispatches.
+//
+//  Each entry pairs the exact signature string the contract hashes
+//  with a codec for its calldata (the bytes after the selector)
+//  and a codec for the BytesWriter it returns.  Field order is the
+//  contract's read / write order; field names follow the locals the
+//  contract reads into.
+//
+//  Usage:
+//      const data = methods.fundOrder.encode({ orderId: 7n, revision: 0 });
+//      const ok   = methods.fundOrder.decodeResult(reply);
+// ============================================================
+
+import {
+    type Codec,
+    type Infer,
+    CodecError,
+    Reader,
+    Writer,
+    address,
+    bool,
+    bytes,
+    bytes32,
+    decode,
+    encode,
+    list,
+    struct,
+    u16,
+    u256,
+    u32,
+    u64,
+    u8,
+} from './codec.js';
+import { selector } from './selectors.js';
+
+export interface Method<A, R> {
+    readonly signature: string;
+    readonly selector: number;
+    readonly args: Codec<A>;
+    readonly result: Codec<R>;
+    /** Selector followed by the encoded arguments. */
+    encode(args: A): Uint8Array;
+    /** Inverse of encode(); rejects a foreign selector. */
+    decodeCall(data: Uint8Array): A;
+    encodeResult(value: R): Uint8Array;
+    decodeResult(data: Uint8Array): R;
+}
+
+export type ArgsOf<M> = M extends Method<infer A, unknown> ? A : never;
+export type ResultOf<M> = M extends Method<unknown, infer R> ? R : never;
+
+function method<A, R>(signature: string, args: Codec<A>, result: Codec<R>): Method<A, R> {
+    const sel = selector(signature);
+    return {
+        signature,
+        selector: sel,
+        args,
+        result,
+        encode(value) {
+            const w = new Writer();
+            w.u32(sel);
+            args.write(w, value);
+            return w.toBytes();
+        },
+        decodeCall(data) {
+            const r = new Reader(data);
+            const got = r.u32();
+            if (got !== sel) {
+                throw new CodecError(`selector 0x${got.toString(16)} is not ${signature}`);
+            }
+            return decode(args, r.bytes(r.remaining));
+        },
+        encodeResult: (value) => encode(result, value),
+        decodeResult: (data) => decode(result, data),
+    };
+}
+
+const noArgs = struct({});
+
+// ── Shared layouts ────────────────────────────────────────────
+
+/** The trailing options block of createOrder / createMilestoneOrder. */
+const orderOptions = {
+    arbiter: address,
+    arbiterFeeBps: u16,
+    paymentToken: address,
+    termsHash: bytes32,
+    bond: u256,
+    allowedBuyers: list(u16, address),
+} as const;
+
+const byOrder = struct({ orderId: u64 });
+const byToken = struct({ token: address });
+
+/** getOrdersBySeller / getOrdersByBuyer / getListingPurchases. */
+const indexPage = struct({ total: u64, orderIds: list(u32, u64) });
+
+// ── View result layouts ───────────────────────────────────────
+
+const orderView = struct({
+    orderId: u64,
+    seller: address,
+    buyer: address,
+    price: u256,
+    locked: u256,
+    state: u8,
+    deadline: u64,
+    acceptedAt: u64,
+    arbiter: address,
+    arbiterFee: u16,
+    paymentToken: address,
+    termsHash: bytes32,
+    disputedAt: u64,
+    bond: u256,
+    deliveredAt: u64,
+    revision: u32,
+    listingId: u64,
+    allowedBuyers: list(u8, address),
+});
+
+/** getMilestones: u8 count and u8 released precede the entries. */
+const milestonesView: Codec<{ released: number; milestones: { amount: bigint; deadline: bigint }[] }> = {
+    write: (w, v) => {
+        w.u8(v.milestones.length);
+        w.u8(v.released);
+        for (const m of v.milestones) {
+            w.u256(m.amount);
+            w.u64(m.deadline);
+        }
+    },
+    read: (r) => {
+        const count = r.u8();
+        const released = r.u8();
+        const milestones: { amount: bigint; deadline: bigint }[] = [];
+        for (let i = 0; i < count; i++) milestones.push({ amount: r.u256(), deadline: r.u64() });
+        return { released, milestones };
+    },
+};
+
+const reputationView = struct({
+    completedAsSeller: u64,
+    completedAsBuyer: u64,
+    cancelledAfterFunding: u64,
+    disputesOpened: u64,
+    disputesLost: u64,
+    volume: u256,
+});
+
+const requestView = struct({
+    requestId: u64,
+    buyer: address,
+    budget: u256,
+    deadline: u64,
+    paymentToken: address,
+    termsHash: bytes32,
+    arbiter: address,
+    arbiterFee: u16,
+    state: u8,
+    bidCount: u32,
+    orderId: u64,
+});
+
+const subscriptionView = struct({
+    subscriptionId: u64,
+    buyer: address,
+    seller: address,
+    arbiter: address,
+    arbiterFeeBps: u16,
+    pricePerPeriod: u256,
+    periodBlocks: u64,
+    startBlock: u64,
+    periodsFunded: u16,
+    periodsActive: u16,
+    currentPeriod: u64,
+    paymentToken: address,
+    termsHash: bytes32,
+    claimedBitmap: u256,
+    disputedBitmap: u256,
+    locked: u256,
+    claimable: u256,
+    held: u256,
+});
+
+const listingView = struct({
+    listingId: u64,
+    seller: address,
+    unitPrice: u256,
+    deliveryBlocks: u64,
+    units: u32,
+    unitsLeft: u32,
+    open: bool,
+    paymentToken: address,
+    termsHash: bytes32,
+    arbiter: address,
+    arbiterFee: u16,
+    purchases: u64,
+});
+
+const proposalView = struct({
+    param: u8,
+    value: u256,
+    proposer: address,
+    votingEnds: u64,
+    executableAt: u64,
+    votesFor: u256,
+    votesAgainst: u256,
+    quorum: u256,
+    status: u8,
+});
+
+const parametersView = struct({
+    minDeadline: u256,
+    acceptTimeout: u256,
+    disputeTimeout: u256,
+    faucetAmount: u256,
+    faucetCooldown: u256,
+});
+
+const orderParametersView = struct({
+    minDeadline: u64,
+    acceptTimeout: u64,
+    disputeTimeout: u64,
+});
+
+const configView = struct({
+    treasury: address,
+    maxSupply: u256,
+    minDeadline: u64,
+    acceptTimeout: u64,
+    disputeTimeout: u64,
+    faucetEnabled: bool,
+    faucetAmount: u256,
+    faucetCooldown: u64,
+});
+
+const escrowStatsView = struct({
+    contractBalance: u256,
+    totalLocked: u256,
+    orderCount: u64,
+    feesAccrued: u256,
+    treasury: address,
+    frozenAt: u64,
+    votesLocked: u256,
+});
+
+const tokenEscrowStatsView = struct({
+    contractBalance: u256,
+    totalLocked: u256,
+    feesAccrued: u256,
+    frozenAt: u64,
+});
+
+// ── Methods, in callMethod() order ────────────────────────────
+
+export const methods = {
+    createOrder: method(
+        'createOrder(uint256,uint64,address,uint16,address,bytes32,uint256,address[])',
+        struct({ price: u256, deadlineBlocks: u64, ...orderOptions }),
+        u64,
+    ),
+    createMilestoneOrder: method(
+        'createMilestoneOrder(uint256[],uint64[],address,uint16,address,bytes32,uint256,address[])',
+        struct({ amounts: list(u16, u256), deadlineBlocks: list(u16, u64), ...orderOptions }),
+        u64,
+    ),
+    updateOrder: method(
+        'updateOrder(uint64,uint256,uint64)',
+        struct({ orderId: u64, newPrice: u256, deadlineBlocks: u64 }),
+        u32,
+    ),
+    acceptOrder: method(
+        'acceptOrder(uint64,bytes32)',
+        struct({ orderId: u64, termsHash: bytes32 }),
+        bool,
+    ),
+    acceptOrderFor: method(
+        'acceptOrderFor(uint64,bytes32,address)',
+        struct({ orderId: u64, termsHash: bytes32, buyer: address }),
+        bool,
+    ),
+    setOperator: method(
+        'setOperator(address,uint32)',
+        struct({ operator: address, mask: u32 }),
+        bool,
+    ),
+    fundOrder: method(
+        'fundOrder(uint64,uint32)',
+        struct({ orderId: u64, revision: u32 }),
+        bool,
+    ),
+    confirmCompletion: method('confirmCompletion(uint64)', byOrder, bool),
+    markDelivered: method('markDelivered(uint64)', byOrder, bool),
+    claimAutoRelease: method('claimAutoRelease(uint64)', byOrder, bool),
+    cancelOrder: method('cancelOrder(uint64)', byOrder, bool),
+    cancelOrders: method(
+        'cancelOrders(uint64[],bool)',
+        struct({ orderIds: list(u16, u64), revertOnFailure: bool }),
+        list(u16, bool),
+    ),
+    // `data` is the item's return data, or its UTF-8 revert reason when skipped.
+    multicall: method(
+        'multicall(bytes[],bool)',
+        struct({ calls: list(u16, bytes), revertOnFailure: bool }),
+        list(u16, struct({ ok: bool, data: bytes })),
+    ),
+    openDispute: method('openDispute(uint64)', byOrder, bool),
+    releaseMilestone: method(
+        'releaseMilestone(uint64,uint8)',
+        struct({ orderId: u64, index: u8 }),
+        bool,
+    ),
+    createListing: method(
+        'createListing(uint256,uint64,uint32,address,uint16,address,bytes32)',
+        struct({
+            unitPrice: u256,
+            deliveryBlocks: u64,
+            units: u32,
+            arbiter: address,
+            arbiterFeeBps: u16,
+            paymentToken: address,
+            termsHash: bytes32,
+        }),
+        u64,
+    ),
+    closeListing: method('closeListing(uint64)', struct({ listingId: u64 }), bool),
+    createSubscription: method(
+        'createSubscription(address,uint256,uint64,uint16,address,uint16,address,bytes32)',
+        struct({
+            seller: address,
+            pricePerPeriod: u256,
+            periodBlocks: u64,
+            periods: u16,
+            arbiter: address,
+            arbiterFeeBps: u16,
+            paymentToken: address,
+            termsHash: bytes32,
+        }),
+        u64,
+    ),
+    claimSubscriptionPeriod: method(
+        'claimSubscriptionPeriod(uint64,uint16)',
+        struct({ subId: u64, period: u16 }),
+        bool,
+    ),
+    disputeSubscriptionPeriod: method(
+        'disputeSubscriptionPeriod(uint64,uint16)',
+        struct({ subId: u64, period: u16 }),
+        bool,
+    ),
+    resolveSubscriptionPeriod: method(
+        'resolveSubscriptionPeriod(uint64,uint16,uint256)',
+        struct({ subId: u64, period: u16, sellerAmount: u256 }),
+        bool,
+    ),
+    refundSubscriptionPeriod: method(
+        'refundSubscriptionPeriod(uint64,uint16)',
+        struct({ subId: u64, period: u16 }),
+        bool,
+    ),
+    cancelSubscription: method('cancelSubscription(uint64)', struct({ subId: u64 }), bool),
+    transferSellerRole: method(
+        'transferSellerRole(uint64,address)',
+        struct({ orderId: u64, newHolder: address }),
+        bool,
+    ),
+    transferBuyerRole: method(
+        'transferBuyerRole(uint64,address)',
+        struct({ orderId: u64, newHolder: address }),
+        bool,
+    ),
+    proposeDeadlineExtension: method(
+        'proposeDeadlineExtension(uint64,uint64)',
+        struct({ orderId: u64, newDeadline: u64 }),
+        bool,
+    ),
+    approveDeadlineExtension: method('approveDeadlineExtension(uint64)', byOrder, bool),
+    createRequest: method(
+        'createRequest(uint256,uint64,address,uint16,address,bytes32)',
+        struct({
+            budget: u256,
+            deadline: u64,
+            arbiter: address,
+            arbiterFeeBps: u16,
+            paymentToken: address,
+            termsHash: bytes32,
+        }),
+        u64,
+    ),
+    submitBid: method(
+        'submitBid(uint64,uint256,uint64)',
+        struct({ requestId: u64, price: u256, deadline: u64 }),
+        u32,
+    ),
+    selectBid: method(
+        'selectBid(uint64,uint32,bool)',
+        struct({ requestId: u64, bidId: u32, fund: bool }),
+        u64,
+    ),
+    cancelRequest: method('cancelRequest(uint64)', struct({ requestId: u64 }), bool),
+    submitEvidence: method(
+        'submitEvidence(uint64,bytes32)',
+        struct({ orderId: u64, evidenceHash: bytes32 }),
+        u32,
+    ),
+    resolveDispute: method(
+        'resolveDispute(uint64,uint256)',
+        struct({ orderId: u64, sellerAmount: u256 }),
+        bool,
+    ),
+    proposeSettlement: method(
+        'proposeSettlement(uint64,uint256)',
+        struct({ orderId: u64, sellerAmount: u256 }),
+        bool,
+    ),
+    withdrawSettlement: method('withdrawSettlement(uint64)', byOrder, bool),
+    acceptSettlement: method(
+        'acceptSettlement(uint64,uint256)',
+        struct({ orderId: u64, expectedSellerAmount: u256 }),
+        bool,
+    ),
+    sweepExcess: method('sweepExcess(address)', byToken, bool),
+    withdrawFees: method('withdrawFees(address)', byToken, u256),
+    checkInvariant: method('checkInvariant(address)', byToken, bool),
+    emergencyWithdraw: method('emergencyWithdraw(uint64)', byOrder, bool),
+    claimFaucet: method('claimFaucet()', noArgs, bool),
+    createProposal: method(
+        'createProposal(uint8,uint256)',
+        struct({ param: u8, value: u256 }),
+        u64,
+    ),
+    castVote: method(
+        'castVote(uint64,bool,uint256)',
+        struct({ proposalId: u64, support: bool, amount: u256 }),
+        bool,
+    ),
+    withdrawVote: method('withdrawVote(uint64)', struct({ proposalId: u64 }), bool),
+    executeProposal: method('executeProposal(uint64)', struct({ proposalId: u64 }), bool),
+
+    // ── Views ──
+    getOrder: method('getOrder(uint64)', byOrder, orderView),
+    getMilestones: method('getMilestones(uint64)', byOrder, milestonesView),
+    getEvidenceCount: method(
+        'getEvidenceCount(uint64)',
+        byOrder,
+        struct({ count: u32, windowClosesAt: u64 }),
+    ),
+    getReputation: method('getReputation(address)', struct({ addr: address }), reputationView),
+    getDeadlineExtension: method(
+        'getDeadlineExtension(uint64)',
+        byOrder,
+        struct({ proposer: address, newDeadline: u64 }),
+    ),
+    getRequest: method('getRequest(uint64)', struct({ requestId: u64 }), requestView),
+    getBid: method(
+        'getBid(uint64,uint32)',
+        struct({ requestId: u64, bidId: u32 }),
+        struct({ seller: address, price: u256, deadline: u64 }),
+    ),
+    getSettlement: method(
+        'getSettlement(uint64)',
+        byOrder,
+        struct({ proposer: address, sellerAmount: u256 }),
+    ),
+    getOrdersBySeller: method(
+        'getOrdersBySeller(address,uint64,uint32)',
+        struct({ seller: address, offset: u64, limit: u32 }),
+        indexPage,
+    ),
+    getOrdersByBuyer: method(
+        'getOrdersByBuyer(address,uint64,uint32)',
+        struct({ buyer: address, offset: u64, limit: u32 }),
+        indexPage,
+    ),
+    getProposal: method('getProposal(uint64)', struct({ proposalId: u64 }), proposalView),
+    getParameters: method('getParameters()', noArgs, parametersView),
+    getOrderParameters: method('getOrderParameters(uint64)', byOrder, orderParametersView),
+    getOperator: method(
+        'getOperator(address,address)',
+        struct({ owner: address, operator: address }),
+        u32,
+    ),
+    getPositionOwner: method(
+        'getPositionOwner(uint64,uint8)',
+        struct({ orderId: u64, role: u8 }),
+        address,
+    ),
+    getSubscription: method('getSubscription(uint64)', struct({ subId: u64 }), subscriptionView),
+    getListing: method('getListing(uint64)', struct({ listingId: u64 }), listingView),
+    getListingPurchases: method(
+        'getListingPurchases(uint64,uint64,uint32)',
+        struct({ listingId: u64, offset: u64, limit: u32 }),
+        indexPage,
+    ),
+    getEscrowStats: method('getEscrowStats()', noArgs, escrowStatsView),
+    getConfig: method('getConfig()', noArgs, configView),
+    getSchemaInfo: method(
+        'getSchemaInfo(uint64)',
+        byOrder,
+        struct({ contractSchema: u32, orderSchema: u32 }),
+    ),
+    getTokenEscrowStats: method('getTokenEscrowStats(address)', byToken, tokenEscrowStatsView),
+} as const;
+
+export type MethodName = keyof typeof methods;
+
+export type OrderView = Infer<typeof orderView>;
+export type MilestonesView = Infer<typeof milestonesView>;
+export type ReputationView = Infer<typeof reputationView>;
+export type RequestView = Infer<typeof requestView>;
+export type SubscriptionView = Infer<typeof subscriptionView>;
+export type ListingView = Infer<typeof listingView>;
+export type ProposalView = Infer<typeof proposalView>;
+export type ParametersView = Infer<typeof parametersView>;
+export type OrderParametersView = Infer<typeof orderParametersView>;
+export type ConfigView = Infer<typeof configView>;
+export type EscrowStatsView = Infer<typeof escrowStatsView>;
+export type TokenEscrowStatsView = Infer<typeof tokenEscrowStatsView>;
+
+const bySelector = new Map<number, MethodName>();
+for (const name of Object.keys(methods) as MethodName[]) {
+    bySelector.set(methods[name].selector, name);
+}
+
+/** Looks up the method a calldata blob (or multicall item) targets. */
+export function methodOf(data: Uint8Array): MethodName | undefined {
+    if (data.length < 4) return undefined;
+    return bySelector.get(new Reader(data).u32());
+}
+
+// ── Deployment ────────────────────────────────────────────────
+
+/** onDeployment() calldata; carries no selector. */
+export const deploymentConfig = struct({
+    treasury: address,
+    maxSupply: u256,
+    minDeadline: u64,
+    acceptTimeout: u64,
+    disputeTimeout: u64,
+    faucetEnabled: bool,
+    faucetAmount: u256,
+    faucetCooldown: u64,
+    initialMint: u256,
+});
+
+export type DeploymentConfig = Infer<typeof deploymentConfig>;
+
+export function encodeDeployment(config: DeploymentConfig): Uint8Array {
+    return encode(deploymentConfig, config);
+}
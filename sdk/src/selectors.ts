@@ -0,0 +1,11 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+
+/**
+ * The 4-byte selector the contract's encodeSelector() derives from a
+ * method signature: the first four bytes of sha256(signature), read
+ * as a big-endian u32.
+ */
+export function selector(signature: string): number {
+    const digest = sha256(new TextEncoder().encode(signature));
+    return new DataView(digest.buffer, digest.byteOffset, 4).getUint32(0);
+}
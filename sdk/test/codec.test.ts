@@ -0,0 +1,100 @@
+import { createHash } from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+    CodecError,
+    ZERO_ADDRESS,
+    address,
+    bool,
+    bytes,
+    bytes32,
+    decode,
+    encode,
+    list,
+    struct,
+    u16,
+    u256,
+    u32,
+    u64,
+    u8,
+} from '../src/codec.js';
+import { selector } from '../src/selectors.js';
+
+const hex = (b: Uint8Array): string => Buffer.from(b).toString('hex');
+
+describe('primitives', () => {
+    it('writes integers big-endian at their fixed width', () => {
+        expect(hex(encode(u8, 0xab))).toBe('ab');
+        expect(hex(encode(u16, 0x0102))).toBe('0102');
+        expect(hex(encode(u32, 0x01020304))).toBe('01020304');
+        expect(hex(encode(u64, 0x0102030405060708n))).toBe('0102030405060708');
+        expect(hex(encode(u256, 1n))).toBe('00'.repeat(31) + '01');
+        expect(hex(encode(bool, true))).toBe('01');
+    });
+
+    it('round-trips the extremes of each width', () => {
+        for (const v of [0, 0xff]) expect(decode(u8, encode(u8, v))).toBe(v);
+        for (const v of [0, 0xffff]) expect(decode(u16, encode(u16, v))).toBe(v);
+        for (const v of [0, 0xffffffff]) expect(decode(u32, encode(u32, v))).toBe(v);
+        for (const v of [0n, (1n << 64n) - 1n]) expect(decode(u64, encode(u64, v))).toBe(v);
+        for (const v of [0n, (1n << 256n) - 1n]) expect(decode(u256, encode(u256, v))).toBe(v);
+    });
+
+    it('rejects out-of-range values', () => {
+        expect(() => encode(u8, 256)).toThrow(CodecError);
+        expect(() => encode(u16, -1)).toThrow(CodecError);
+        expect(() => encode(u32, 1.5)).toThrow(CodecError);
+        expect(() => encode(u64, 1n << 64n)).toThrow(CodecError);
+        expect(() => encode(u256, -1n)).toThrow(CodecError);
+    });
+
+    it('encodes addresses as 20 raw bytes and normalises case', () => {
+        const a = '0x' + 'AB'.repeat(20);
+        expect(encode(address, a as `0x${string}`)).toHaveLength(20);
+        expect(decode(address, encode(address, a as `0x${string}`))).toBe(a.toLowerCase());
+        expect(decode(address, new Uint8Array(20))).toBe(ZERO_ADDRESS);
+        expect(() => encode(address, '0x1234')).toThrow(CodecError);
+        expect(() => encode(bytes32, `0x${'zz'.repeat(32)}`)).toThrow(CodecError);
+    });
+
+    it('prefixes bytes with a u32 length', () => {
+        expect(hex(encode(bytes, Uint8Array.of(9, 8)))).toBe('000000020908');
+    });
+});
+
+describe('composites', () => {
+    it('writes list length at the prefix width given', () => {
+        expect(hex(encode(list(u16, u8), [1, 2]))).toBe('00020102');
+        expect(hex(encode(list(u8, u8), [1]))).toBe('0101');
+        expect(hex(encode(list(u32, u8), []))).toBe('00000000');
+    });
+
+    it('writes struct fields in declaration order', () => {
+        const c = struct({ b: u8, a: u16 });
+        expect(hex(encode(c, { a: 0x0102, b: 3 }))).toBe('030102');
+        expect(decode(c, Uint8Array.of(3, 1, 2))).toEqual({ b: 3, a: 0x0102 });
+    });
+
+    it('grows the writer past its initial buffer', () => {
+        const values = Array.from({ length: 40 }, (_, i) => BigInt(i) << 190n);
+        const data = encode(list(u16, u256), values);
+        expect(data).toHaveLength(2 + 40 * 32);
+        expect(decode(list(u16, u256), data)).toEqual(values);
+    });
+
+    it('rejects truncated and over-long input', () => {
+        expect(() => decode(u64, new Uint8Array(7))).toThrow(/read past end/);
+        expect(() => decode(u8, new Uint8Array(2))).toThrow(/1 trailing bytes/);
+        expect(() => decode(list(u16, u64), Uint8Array.of(0, 1))).toThrow(CodecError);
+    });
+});
+
+describe('selector', () => {
+    it('is the first four bytes of sha256(signature), big-endian', () => {
+        const sig = 'createOrder(uint256,uint64,address,uint16,address,bytes32,uint256,address[])';
+        const expected = createHash('sha256').update(sig).digest().readUInt32BE(0);
+        expect(selector(sig)).toBe(expected);
+        expect(selector('claimFaucet()')).toBe(createHash('sha256').update('claimFaucet()').digest().readUInt32BE(0));
+    });
+});
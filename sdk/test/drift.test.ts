@@ -0,0 +1,165 @@
+// Guards against the SDK and contracts/EscrowMarketplace.ts drifting
+// apart: the selectors, event shapes and enum values below are read
+// straight from the contract source, as are the layouts the views write.
+
+import { describe, expect, it } from 'vitest';
+
+import type { Codec } from '../src/codec.js';
+import * as constants from '../src/constants.js';
+import { type EventType, events } from '../src/events.js';
+import { type Method, type MethodName, methods } from '../src/methods.js';
+import { CONTRACT_SOURCE, type Slot, probe } from './support.js';
+
+function dispatchedSignatures(): string[] {
+    const start = CONTRACT_SOURCE.indexOf('private _dispatch(');
+    const end = CONTRACT_SOURCE.indexOf('super.callMethod(', start);
+    const body = CONTRACT_SOURCE.slice(start, end);
+    return [...body.matchAll(/case encodeSelector\('([^']+)'\)/g)].map((m) => m[1] as string);
+}
+
+const WRITE_SLOT: Record<string, Slot> = {
+    U8: 'u8',
+    U16: 'u16',
+    U32: 'u32',
+    U64: 'u64',
+    U256: 'w32',
+    Address: 'addr',
+    Boolean: 'bool',
+};
+
+function emittedEvents(): Map<string, Slot[]> {
+    const out = new Map<string, Slot[]>();
+    const classes = CONTRACT_SOURCE.matchAll(/class \w+ extends NetEvent \{([\s\S]*?)super\('(\w+)', w\);/g);
+    for (const [, body, name] of classes) {
+        const slots = [...(body as string).matchAll(/\bw\.write(\w+)\(/g)].map((m) => {
+            const slot = WRITE_SLOT[m[1] as string];
+            if (!slot) throw new Error(`${name}: unmapped write${m[1]}`);
+            return slot;
+        });
+        out.set(name as string, slots);
+    }
+    return out;
+}
+
+/** The statements of a private contract method, between its outer braces. */
+function contractMethod(name: string): string {
+    const start = CONTRACT_SOURCE.indexOf(`    private ${name}(`);
+    if (start < 0) throw new Error(`${name}: not found`);
+    return CONTRACT_SOURCE.slice(CONTRACT_SOURCE.indexOf('{', start) + 1, CONTRACT_SOURCE.indexOf('\n    }\n', start));
+}
+
+/**
+ * The slots each view handler writes to `out`, in order.  A loop body
+ * is repeated once per element: PARAM_COUNT times for getParameters,
+ * twice for list entries (probe() makes every list two long).
+ */
+function viewLayouts(): Map<string, Slot[]> {
+    const start = CONTRACT_SOURCE.indexOf('private _dispatch(');
+    const dispatch = CONTRACT_SOURCE.slice(start, CONTRACT_SOURCE.indexOf('super.callMethod(', start));
+    const paramCount = contractConstants('PARAM')['COUNT'] as number;
+    const out = new Map<string, Slot[]>();
+    for (const [, sig, handler] of dispatch.matchAll(/case encodeSelector\('(get[^']+)'\):\s*return this\.(_\w+)\(/g)) {
+        let body = contractMethod(handler as string);
+        const delegate = /return this\.(_\w+)\([^;]*calldata\);/.exec(body);
+        if (delegate) body = contractMethod(delegate[1] as string);
+
+        const stack: { repeat: number; slots: Slot[] }[] = [{ repeat: 1, slots: [] }];
+        const tokens = body.matchAll(/for \([^;]*;\s*\w+ < (\w+);[^)]*\) \{|\{|\}|\bout\.write(\w+)\(/g);
+        for (const [token, bound, write] of tokens) {
+            const top = stack[stack.length - 1] as { repeat: number; slots: Slot[] };
+            if (write) {
+                const slot = WRITE_SLOT[write];
+                if (!slot) throw new Error(`${sig}: unmapped write${write}`);
+                top.slots.push(slot);
+            } else if (token === '}') {
+                stack.pop();
+                const parent = stack[stack.length - 1];
+                for (let i = 0; parent && i < top.repeat; i++) parent.slots.push(...top.slots);
+            } else {
+                stack.push({ repeat: bound ? (bound === 'PARAM_COUNT' ? paramCount : 2) : 1, slots: [] });
+            }
+        }
+        out.set((sig as string).slice(0, (sig as string).indexOf('(')), (stack[0] as { slots: Slot[] }).slots);
+    }
+    return out;
+}
+
+function contractConstants(prefix: string): Record<string, number> {
+    const out: Record<string, number> = {};
+    const re = new RegExp(`^const ${prefix}_(\\w+):\\s*u\\d+\\s*=\\s*([^;]+);`, 'gm');
+    for (const [, key, expr] of CONTRACT_SOURCE.matchAll(re)) {
+        const shift = /^(\d+)\s*<<\s*(\d+)$/.exec((expr as string).trim());
+        const wide = /^u256\.fromU64\(([\d_]+)\)$/.exec((expr as string).trim());
+        out[key as string] = shift
+            ? Number(shift[1]) << Number(shift[2])
+            : Number(((wide?.[1] ?? expr) as string).trim().replace(/_/g, ''));
+    }
+    return out;
+}
+
+/** Numeric members of a TypeScript enum (skips the reverse mapping). */
+function enumValues(e: object): Record<string, number> {
+    return Object.fromEntries(Object.entries(e).filter(([, v]) => typeof v === 'number'));
+}
+
+describe('contract drift', () => {
+    it('covers exactly the selectors callMethod() dispatches, in order', () => {
+        expect(Object.values(methods).map((m) => m.signature)).toEqual(dispatchedSignatures());
+    });
+
+    it('names each method after its signature', () => {
+        for (const [name, m] of Object.entries(methods)) {
+            expect(m.signature.slice(0, m.signature.indexOf('('))).toBe(name);
+        }
+    });
+
+    it('decodes every view result with the field widths the contract writes', () => {
+        const views = viewLayouts();
+        expect([...views.keys()]).toEqual(Object.keys(methods).filter((name) => name.startsWith('get')));
+        for (const [name, slots] of views) {
+            const m = methods[name as MethodName] as Method<unknown, unknown>;
+            expect(probe(m.result).slots, name).toEqual(slots);
+        }
+    });
+
+    it('decodes every emitted event with the field widths the contract writes', () => {
+        const emitted = emittedEvents();
+        expect([...emitted.keys()].sort()).toEqual(Object.keys(events).sort());
+        for (const [name, slots] of emitted) {
+            expect(probe(events[name as EventType] as Codec<unknown>).slots, name).toEqual(slots);
+        }
+    });
+
+    it('mirrors the contract enums', () => {
+        expect(enumValues(constants.OrderState)).toEqual(contractConstants('STATE'));
+        expect(enumValues(constants.RequestState)).toEqual(contractConstants('REQUEST'));
+        expect(enumValues(constants.ProposalStatus)).toEqual(contractConstants('PROPOSAL'));
+        expect(enumValues(constants.Role)).toEqual(contractConstants('ROLE'));
+        expect(enumValues(constants.SchemaVersion)).toEqual(contractConstants('SCHEMA'));
+        expect(constants.Permission).toEqual(contractConstants('PERM'));
+
+        const { COUNT, ...params } = contractConstants('PARAM');
+        expect(enumValues(constants.Param)).toEqual(params);
+        expect(constants.PARAM_COUNT).toBe(COUNT);
+    });
+
+    it('mirrors the calldata limits', () => {
+        const limits = {
+            ...contractConstants('MAX'),
+            ...contractConstants('MIN'),
+            ...contractConstants('BPS'),
+        };
+        expect(limits).toMatchObject({
+            ARBITER_FEE_BPS: constants.MAX_ARBITER_FEE_BPS,
+            MILESTONES: constants.MAX_MILESTONES,
+            PAGE_SIZE: constants.MAX_PAGE_SIZE,
+            BATCH_SIZE: constants.MAX_BATCH_SIZE,
+            ALLOWED_BUYERS: constants.MAX_ALLOWED_BUYERS,
+            SUB_PERIODS: constants.MAX_SUB_PERIODS,
+            PARAM_BLOCKS: Number(constants.MAX_PARAM_BLOCKS),
+            FAUCET_AMOUNT: Number(constants.MAX_FAUCET_AMOUNT),
+            FAUCET_COOLDOWN: Number(constants.MIN_FAUCET_COOLDOWN),
+            DENOMINATOR: constants.BPS_DENOMINATOR,
+        });
+    });
+});
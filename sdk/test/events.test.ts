@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { type Codec, CodecError } from '../src/codec.js';
+import { OrderState } from '../src/constants.js';
+import { type EventType, decodeEvent, encodeEvent, events, isEventType } from '../src/events.js';
+import { probe } from './support.js';
+
+const types = Object.keys(events) as EventType[];
+
+describe('events', () => {
+    it.each(types)('%s round-trips', (type) => {
+        const { value } = probe(events[type] as Codec<unknown>);
+        const data = encodeEvent(type, value as never);
+        const decoded = decodeEvent(type, data);
+        expect(decoded).toEqual({ type, data: value });
+        expect(encodeEvent(type, decoded.data as never)).toEqual(data);
+    });
+
+    it('narrows on the event type', () => {
+        const data = encodeEvent('OrderDisputed', {
+            orderId: 3n,
+            raisedBy: `0x${'aa'.repeat(20)}`,
+            actor: `0x${'bb'.repeat(20)}`,
+        });
+        expect(data).toHaveLength(48);
+
+        const ev = decodeEvent('OrderDisputed', data);
+        if (ev.type !== 'OrderDisputed') throw new Error('unreachable');
+        expect(ev.data.orderId).toBe(3n);
+        expect(ev.data.actor).toBe(`0x${'bb'.repeat(20)}`);
+    });
+
+    it('decodes a payload laid out as the contract writes it', () => {
+        const data = Uint8Array.from([
+            ...[0, 0, 0, 0, 0, 0, 0, 9],
+            ...new Array<number>(20).fill(0xaa),
+            ...new Array<number>(20).fill(0xbb),
+        ]);
+        expect(decodeEvent('OrderDisputed', data).data).toEqual({
+            orderId: 9n,
+            raisedBy: `0x${'aa'.repeat(20)}`,
+            actor: `0x${'bb'.repeat(20)}`,
+        });
+    });
+
+    it('carries the role byte in RoleTransferred', () => {
+        const { value } = probe(events.RoleTransferred);
+        const ev = decodeEvent('RoleTransferred', encodeEvent('RoleTransferred', { ...value, role: 1 }));
+        expect(ev.data).toMatchObject({ role: 1 });
+    });
+
+    it('rejects unknown types and short payloads', () => {
+        expect(isEventType('Transfer')).toBe(false);
+        expect(isEventType('OrderFunded')).toBe(true);
+        expect(() => decodeEvent('Transfer', new Uint8Array())).toThrow(/unknown event type/);
+        expect(() => decodeEvent('OrderFunded', new Uint8Array(10))).toThrow(CodecError);
+    });
+
+    it('exposes the order states as a numeric enum', () => {
+        expect(OrderState.FUNDED).toBe(3);
+        expect(OrderState[8]).toBe('SETTLED');
+    });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+
+import { ZERO_ADDRESS, ZERO_BYTES32, encode } from '../src/codec.js';
+import { OrderState, Permission } from '../src/constants.js';
+import {
+    type Method,
+    type MethodName,
+    deploymentConfig,
+    encodeDeployment,
+    methodOf,
+    methods,
+} from '../src/methods.js';
+import { probe } from './support.js';
+
+const names = Object.keys(methods) as MethodName[];
+const entries = names.map((name) => [name, methods[name] as Method<unknown, unknown>] as const);
+
+const SELLER = `0x${'11'.repeat(20)}` as const;
+const BUYER = `0x${'22'.repeat(20)}` as const;
+
+describe('every method', () => {
+    it.each(entries)('%s: calldata round-trips behind its selector', (_name, m) => {
+        const { value } = probe(m.args);
+        const data = m.encode(value);
+        expect(new DataView(data.buffer).getUint32(0)).toBe(m.selector);
+        expect(m.decodeCall(data)).toEqual(value);
+        expect(m.encode(m.decodeCall(data))).toEqual(data);
+    });
+
+    it.each(entries)('%s: result round-trips', (_name, m) => {
+        const { value } = probe(m.result);
+        const data = m.encodeResult(value);
+        expect(m.decodeResult(data)).toEqual(value);
+        expect(m.encodeResult(m.decodeResult(data))).toEqual(data);
+    });
+
+    it('has unique selectors, and methodOf() finds each one', () => {
+        expect(new Set(entries.map(([, m]) => m.selector)).size).toBe(entries.length);
+        for (const [name, m] of entries) {
+            expect(methodOf(m.encode(probe(m.args).value))).toBe(name);
+        }
+        expect(methodOf(Uint8Array.of(0, 0))).toBeUndefined();
+    });
+
+    it('refuses calldata for a different method', () => {
+        const data = methods.cancelOrder.encode({ orderId: 1n });
+        expect(() => methods.openDispute.decodeCall(data)).toThrow(/not openDispute/);
+    });
+});
+
+describe('calldata layouts', () => {
+    it('createOrder packs options after price and deadline', () => {
+        const data = methods.createOrder.encode({
+            price: 1000n,
+            deadlineBlocks: 144n,
+            arbiter: ZERO_ADDRESS,
+            arbiterFeeBps: 0,
+            paymentToken: ZERO_ADDRESS,
+            termsHash: ZERO_BYTES32,
+            bond: 0n,
+            allowedBuyers: [BUYER],
+        });
+        // selector + u256 + u64 + addr + u16 + addr + b32 + u256 + u16 + 1 × addr
+        expect(data).toHaveLength(4 + 32 + 8 + 20 + 2 + 20 + 32 + 32 + 2 + 20);
+    });
+
+    it('multicall nests complete sub-calls, each behind a u32 length', () => {
+        const fund = methods.fundOrder.encode({ orderId: 7n, revision: 1 });
+        const op = methods.setOperator.encode({ operator: SELLER, mask: Permission.FUND | Permission.CONFIRM });
+        const data = methods.multicall.encode({ calls: [fund, op], revertOnFailure: false });
+        expect(data).toHaveLength(4 + 2 + (4 + fund.length) + (4 + op.length) + 1);
+
+        const { calls, revertOnFailure } = methods.multicall.decodeCall(data);
+        expect(calls.map(methodOf)).toEqual(['fundOrder', 'setOperator']);
+        expect(methods.setOperator.decodeCall(calls[1] as Uint8Array).mask).toBe(0b110);
+        expect(revertOnFailure).toBe(false);
+    });
+
+    it('deployment calldata has no selector', () => {
+        const config = probe(deploymentConfig).value;
+        const data = encodeDeployment(config);
+        expect(data).toHaveLength(20 + 32 + 8 * 3 + 1 + 32 + 8 + 32);
+        expect(data).toEqual(encode(deploymentConfig, config));
+    });
+});
+
+/** Big-endian bytes, as BytesWriter lays out integers. */
+const be = (value: bigint | number, width: number): number[] =>
+    Array.from({ length: width }, (_, i) => Number((BigInt(value) >> BigInt(8 * (width - 1 - i))) & 0xffn));
+
+const word = (byte: number, width: number): number[] => new Array<number>(width).fill(byte);
+
+// Replies assembled field by field from the contract's view code
+// rather than from the SDK's own encoders.
+describe('decodes contract-layout replies', () => {
+    it('getOrder, with its allowed-buyer list', () => {
+        const reply = Uint8Array.from([
+            ...be(7, 8),
+            ...word(0x11, 20),
+            ...word(0x22, 20),
+            ...be(1_000n, 32),
+            ...be(900n, 32),
+            OrderState.FUNDED,
+            ...be(5_000, 8),
+            ...be(4_100, 8),
+            ...word(0x33, 20),
+            ...be(250, 2),
+            ...word(0x00, 20),
+            ...word(0xab, 32),
+            ...be(0, 8),
+            ...be(100n, 32),
+            ...be(4_200, 8),
+            ...be(3, 4),
+            ...be(12, 8),
+            2,
+            ...word(0x11, 20),
+            ...word(0x22, 20),
+        ]);
+        expect(reply).toHaveLength(304);
+        expect(methods.getOrder.decodeResult(reply)).toEqual({
+            orderId: 7n,
+            seller: SELLER,
+            buyer: BUYER,
+            price: 1_000n,
+            locked: 900n,
+            state: OrderState.FUNDED,
+            deadline: 5_000n,
+            acceptedAt: 4_100n,
+            arbiter: `0x${'33'.repeat(20)}`,
+            arbiterFee: 250,
+            paymentToken: ZERO_ADDRESS,
+            termsHash: `0x${'ab'.repeat(32)}`,
+            disputedAt: 0n,
+            bond: 100n,
+            deliveredAt: 4_200n,
+            revision: 3,
+            listingId: 12n,
+            allowedBuyers: [SELLER, BUYER],
+        });
+    });
+
+    it('getMilestones, count and released ahead of the entries', () => {
+        const reply = Uint8Array.from([2, 1, ...be(5n, 32), ...be(100, 8), ...be(6n, 32), ...be(200, 8)]);
+        expect(methods.getMilestones.decodeResult(reply)).toEqual({
+            released: 1,
+            milestones: [
+                { amount: 5n, deadline: 100n },
+                { amount: 6n, deadline: 200n },
+            ],
+        });
+    });
+
+    it('index pages, total ahead of the page', () => {
+        const reply = Uint8Array.from([...be(9, 8), ...be(3, 4), ...be(1, 8), ...be(2, 8), ...be(3, 8)]);
+        expect(methods.getOrdersBySeller.decodeResult(reply)).toEqual({ total: 9n, orderIds: [1n, 2n, 3n] });
+    });
+
+    it('getEvidenceCount', () => {
+        const reply = Uint8Array.from([...be(4, 4), ...be(6_000, 8)]);
+        expect(methods.getEvidenceCount.decodeResult(reply)).toEqual({ count: 4, windowClosesAt: 6_000n });
+    });
+
+    it('multicall, an ok flag ahead of each result or revert reason', () => {
+        const reason = Array.from(new TextEncoder().encode('ServiceMarketplace: price must be > 0'));
+        const reply = Uint8Array.from([
+            ...be(2, 2),
+            1, ...be(8, 4), ...be(5, 8),
+            0, ...be(reason.length, 4), ...reason,
+        ]);
+        const [created, skipped] = methods.multicall.decodeResult(reply);
+        expect(created).toEqual({ ok: true, data: Uint8Array.from(be(5, 8)) });
+        expect(skipped?.ok).toBe(false);
+        expect(new TextDecoder().decode(skipped?.data)).toBe('ServiceMarketplace: price must be > 0');
+    });
+
+    it('cancelOrders answers with a u16 count and one bool per id', () => {
+        const data = methods.cancelOrders.encodeResult([true, false, true]);
+        expect(Array.from(data)).toEqual([0, 3, 1, 0, 1]);
+    });
+});
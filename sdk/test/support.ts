@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+
+import type { Codec, Reader } from '../src/codec.js';
+
+/** A wire primitive, with bytes32 / u256 folded together (same 32 bytes). */
+export type Slot = 'u8' | 'u16' | 'u32' | 'u64' | 'w32' | 'bool' | 'addr' | `bytes${number}`;
+
+/**
+ * Drives a codec's read() from a synthetic reader instead of bytes.
+ * The values are deterministic and distinct per slot, lengths stay at
+ * 2 so nested lists are exercised without growing, and every read is
+ * logged so tests can compare a codec's shape against the contract.
+ */
+export function probe<T>(codec: Codec<T>): { value: T; slots: Slot[] } {
+    const slots: Slot[] = [];
+    let n = 0;
+    const next = (): number => ++n;
+    const fake = {
+        u8: () => (slots.push('u8'), 2),
+        u16: () => (slots.push('u16'), 2),
+        u32: () => (slots.push('u32'), 2),
+        u64: () => (slots.push('u64'), BigInt(next()) * 1_000_003n),
+        u256: () => (slots.push('w32'), (1n << 200n) + BigInt(next())),
+        bool: () => (slots.push('bool'), next() % 2 === 0),
+        bytes: (len: number) => {
+            slots.push(len === 20 ? 'addr' : len === 32 ? 'w32' : `bytes${len}`);
+            const seed = next();
+            return Uint8Array.from({ length: len }, (_, i) => (seed * 31 + i) & 0xff);
+        },
+        remaining: 0,
+    };
+    const value = codec.read(fake as unknown as Reader);
+    return { value, slots };
+}
+
+export const CONTRACT_SOURCE: string = readFileSync(
+    new URL('../../contracts/EscrowMarketplace.ts', import.meta.url),
+    'utf8',
+);